@@ -2,6 +2,7 @@ import { $ } from 'bun'
 import { logger } from './src/logger'
 
 const entrypoint = './index.ts'
+const pluginEntrypoint = './plugin.ts'
 const outdir = './dist'
 
 logger.info('Cleaning output directory...')
@@ -19,6 +20,8 @@ const result = await Bun.build({
 	sourcemap: 'external',
 	minify: false,
 	external: ['react', 'react-dom', 'react-native'],
+	// Left to the consumer's bundler, so development-only checks are stripped from their production builds
+	define: { 'process.env.NODE_ENV': 'process.env.NODE_ENV' },
 })
 
 if (!result.success) {
@@ -26,6 +29,23 @@ if (!result.success) {
 	logger.error(result.logs.join('\n'))
 	process.exit(1)
 }
+
+// Build plugin (runs in Bun / Node at build time)
+const pluginResult = await Bun.build({
+	entrypoints: [pluginEntrypoint],
+	outdir: outdir,
+	target: 'node',
+	format: 'esm',
+	sourcemap: 'external',
+	minify: false,
+	external: ['typescript'],
+})
+
+if (!pluginResult.success) {
+	logger.error('Plugin build failed:')
+	logger.error(pluginResult.logs.join('\n'))
+	process.exit(1)
+}
 logger.success('Package built!')
 
 logger.info('Generating types...')
@@ -1,2 +1,32 @@
 export { useStyled } from './src/useStyled'
 export { useSlot } from './src/useSlot'
+export { configureUseStyled } from './src/config'
+export { useStyledSlots } from './src/useStyledSlots'
+export { ThemeProvider, useTheme } from './src/theme'
+export { ColorSchemeProvider, useColorScheme } from './src/colorScheme'
+export { createStyleRegistry, StyleRegistryProvider } from './src/styleRegistry'
+export { createVariants } from './src/createVariants'
+export { consoleDebugSink, createMemorySink } from './src/inspector'
+export type {
+	Breakpoints,
+	ColorScheme,
+	CompoundVariantMatch,
+	Config,
+	DebugOptions,
+	DebugSink,
+	DebugTrace,
+	FinalProps,
+	MergeStrategy,
+	Platform,
+	Recipe,
+	ResponsiveValue,
+	ShorthandDefinition,
+	ShorthandProps,
+	Shorthands,
+	StyledComponent,
+	Theme,
+	ThemeToken,
+	UseStyledOptions,
+	VariantProps,
+} from './src/types'
+export type { StyleRegistry } from './src/styleRegistry'
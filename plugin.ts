@@ -0,0 +1,4 @@
+export { extractStyles } from './src/extract'
+export { useStyledPlugin, useStyledVitePlugin } from './src/plugins'
+export type { ExtractStylesOptions, ExtractStylesResult } from './src/extract'
+export type { StylesPluginOptions } from './src/plugins'
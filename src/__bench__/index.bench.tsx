@@ -1,9 +1,15 @@
 import '../../happydom'
 import React, { type ComponentProps } from 'react'
 import { Fragment } from 'react'
-import { render } from '@testing-library/react'
+import { cleanup, render } from '@testing-library/react'
 import { bench, run } from 'mitata'
 import { useStyled } from '../useStyled'
+import {
+	mergeDirectProps,
+	mergeFinalProps,
+	resolveCompoundVariantProps,
+	resolveVariantProps,
+} from '../utils'
 import { styled } from 'styled-components'
 
 // --- Base Component and Configuration (Reused from tests) ---
@@ -14,7 +20,7 @@ const SimpleButton = (props: ComponentProps<'button'>) => {
 }
 
 // Note: useStyled might need adjustment if types strictly depend on default/compound
-const StyledButton = useStyled(SimpleButton, {
+const buttonConfig = {
 	base: {
 		style: { cursor: 'pointer', border: 'none' },
 		className: 'base-btn',
@@ -43,6 +49,15 @@ const StyledButton = useStyled(SimpleButton, {
 		// Removed disabled to simplify direct comparison with styled-components
 	},
 	// Removed defaultVariants and compoundVariants
+} as const
+
+// Cached (default): base, variants and compounds are resolved once per variant combination
+const StyledButton = useStyled(SimpleButton, buttonConfig)
+
+// Uncached: base, variants and compounds are resolved on every render
+const UncachedStyledButton = useStyled(SimpleButton, {
+	...buttonConfig,
+	cache: false,
 })
 
 // --- SIMPLIFIED styled-components Definition ---
@@ -79,6 +94,24 @@ bench('<SimpleButton>', () => {
 			))}
 		</Fragment>,
 	)
+	// Unmount so the document doesn't grow across iterations and skew later benchmarks
+	cleanup()
+})
+
+bench('<UncachedStyledButton (useStyled without cache - Fixed Props)>', () => {
+	render(
+		<Fragment>
+			{Array.from({ length: RENDER_COUNT }).map((_, i) => (
+				<UncachedStyledButton
+					key={String(i)}
+					color='primary'
+					size='sm'
+				>{`Button ${i}`}</UncachedStyledButton>
+			))}
+		</Fragment>,
+	)
+	// Unmount so the document doesn't grow across iterations and skew later benchmarks
+	cleanup()
 })
 
 // Modified to use FIXED props
@@ -94,6 +127,8 @@ bench('<StyledButton (useStyled - Fixed Props)>', () => {
 			))}
 		</Fragment>,
 	)
+	// Unmount so the document doesn't grow across iterations and skew later benchmarks
+	cleanup()
 })
 
 // Modified to use FIXED props
@@ -109,6 +144,67 @@ bench('<StyledComponentsButton (Fixed Props)>', () => {
 			))}
 		</Fragment>,
 	)
+	// Unmount so the document doesn't grow across iterations and skew later benchmarks
+	cleanup()
+})
+
+// --- Prop resolution only (no DOM) ---
+// Renders above are dominated by the DOM applying inline styles, these isolate the work done by useStyled.
+
+const activeVariants = { color: 'primary', size: 'sm' }
+const directProps = { children: 'Button' }
+const cachedProps = mergeFinalProps(
+	buttonConfig.base,
+	resolveVariantProps(buttonConfig.variants, activeVariants),
+	resolveCompoundVariantProps(undefined, activeVariants),
+	{},
+)
+
+bench('props resolution (uncached: base + variants + compounds + direct)', () => {
+	mergeFinalProps(
+		buttonConfig.base,
+		resolveVariantProps(buttonConfig.variants, activeVariants),
+		resolveCompoundVariantProps(undefined, activeVariants),
+		directProps,
+	)
+})
+
+bench('props resolution (cached: direct only)', () => {
+	mergeDirectProps(cachedProps, directProps)
+})
+
+// A wider config: lookups over many variant values and compound variants
+const wideConfig = {
+	base: { className: 'base', style: { display: 'flex' } },
+	variants: Object.fromEntries(
+		['size', 'tone', 'radius', 'weight', 'align'].map(key => [
+			key,
+			Object.fromEntries(
+				['a', 'b', 'c', 'd', 'e', 'f'].map(value => [
+					value,
+					{ className: `${key}-${value}`, style: { [`--${key}`]: value } },
+				]),
+			),
+		]),
+	),
+	compoundVariants: [
+		{ size: 'a', tone: 'b', className: 'compound-1' },
+		{ size: ['b', 'c'], radius: 'a', className: 'compound-2' },
+		{ tone: { not: 'a' }, weight: 'f', className: 'compound-3' },
+		{ align: ['a', 'b', 'c'], size: 'f', className: 'compound-4' },
+		{ radius: 'e', weight: { not: ['a', 'b'] }, className: 'compound-5' },
+		{ size: 'a', align: 'a', className: 'compound-6' },
+	],
+}
+const wideActiveVariants = { size: 'a', tone: 'b', radius: 'c', weight: 'f', align: 'a' }
+
+bench('props resolution (uncached, 5 variants x 6 values + 6 compounds)', () => {
+	mergeFinalProps(
+		wideConfig.base,
+		resolveVariantProps(wideConfig.variants, wideActiveVariants),
+		resolveCompoundVariantProps(wideConfig.compoundVariants, wideActiveVariants),
+		directProps,
+	)
 })
 
 // Run the defined benchmarks
@@ -0,0 +1,14 @@
+import { useStyled } from 'use-styled'
+
+export const Box = useStyled('div', {
+	base: {
+		className: 'box',
+		style: { display: 'flex', padding: 8, opacity: 0.5 },
+	},
+})
+
+export const Title = useStyled('h1', {
+	base: {
+		style: { fontSize: 24, color: '$colors.text', margin: 0 },
+	},
+})
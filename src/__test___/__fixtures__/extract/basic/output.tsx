@@ -0,0 +1,13 @@
+import { useStyled } from 'use-styled'
+
+export const Box = useStyled('div', {
+	base: {
+		className: "box us-m92pvu us-1guesl8 us-14kqw15",
+	},
+})
+
+export const Title = useStyled('h1', {
+	base: {
+		className: "us-iexdqa us-1097461", style: { color: '$colors.text' },
+	},
+})
@@ -0,0 +1,19 @@
+import { useStyled } from 'use-styled'
+
+// Multi-line class lists are common with Tailwind
+export const Card = useStyled('div', {
+	base: {
+		className: `
+			flex flex-col
+			rounded-lg
+		`,
+		style: { padding: 8 },
+	},
+})
+
+export const Quote = useStyled('blockquote', {
+	base: {
+		className: "it's",
+		style: { margin: 0 },
+	},
+})
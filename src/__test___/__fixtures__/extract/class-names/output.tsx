@@ -0,0 +1,14 @@
+import { useStyled } from 'use-styled'
+
+// Multi-line class lists are common with Tailwind
+export const Card = useStyled('div', {
+	base: {
+		className: "\n\t\t\tflex flex-col\n\t\t\trounded-lg\n\t\t us-1guesl8",
+	},
+})
+
+export const Quote = useStyled('blockquote', {
+	base: {
+		className: "it's us-1097461",
+	},
+})
@@ -0,0 +1,24 @@
+import { useStyled } from 'use-styled'
+
+// Exported: another module may extend it, where an extracted variant style would lose to the child's base style
+export const Button = useStyled('button', {
+	base: { style: { borderRadius: 4 } },
+	variants: {
+		size: { lg: { style: { padding: 12 } } },
+	},
+})
+
+const Link = useStyled('a', {
+	base: { style: { color: 'blue' } },
+	variants: {
+		size: { lg: { style: { fontSize: 18 } } },
+	},
+})
+
+export default useStyled('span', {
+	variants: {
+		tone: { muted: { style: { opacity: 0.5 } } },
+	},
+})
+
+export { Link as TextLink }
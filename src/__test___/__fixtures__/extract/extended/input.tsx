@@ -0,0 +1,26 @@
+import { useStyled, useStyledSlots } from 'use-styled'
+
+// Extended below: the merged config decides between the variant and the child's base padding
+const Parent = useStyled('button', {
+	variants: {
+		size: { lg: { style: { padding: 20 } } },
+	},
+})
+
+export const Child = useStyled(Parent, {
+	base: { style: { padding: 4 } },
+})
+
+// Used as a slot: extended by the slots recipe
+const Icon = useStyled('span', {
+	base: { style: { width: 16 } },
+})
+
+export const IconButton = useStyledSlots(
+	{ root: Child, icon: Icon },
+	{ base: { icon: { style: { width: 24 } } } },
+)
+
+export const Label = useStyled('span', {
+	base: { style: { fontSize: 12 } },
+})
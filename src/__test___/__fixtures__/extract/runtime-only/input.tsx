@@ -0,0 +1,16 @@
+import { useStyled } from 'use-styled'
+import { Pressable } from 'react-native'
+
+const shared = { style: { padding: 8 } }
+
+export const Card = useStyled('div', {
+	base: { ...shared, className: 'card' },
+})
+
+export const Touchable = useStyled(Pressable, {
+	base: { style: { padding: 8 } },
+})
+
+export const Label = useStyled('span', {
+	base: { style: { color: '$colors.text' } },
+})
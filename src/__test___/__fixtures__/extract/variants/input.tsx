@@ -0,0 +1,25 @@
+import { useStyled } from 'use-styled'
+
+const gap = 4
+
+// Only rendered in this module: its variant styles can be extracted
+const Button = useStyled('button', {
+	base: {
+		style: { borderRadius: 4, color: 'black', gap },
+		dark: { style: { color: 'white' } },
+	},
+	variants: {
+		size: {
+			sm: { style: { padding: 4, fontSize: 12 } },
+			lg: { className: 'button-lg', style: { padding: 12, fontSize: 18 } },
+		},
+		tone: {
+			solid: { style: { backgroundColor: 'blue', gap: 8 } },
+		},
+	},
+	compoundVariants: [
+		{ size: 'lg', tone: 'solid', props: { style: { fontSize: 20 } } },
+	],
+})
+
+export const SubmitButton = () => <Button size='lg' tone='solid' />
@@ -0,0 +1,25 @@
+import { useStyled } from 'use-styled'
+
+const gap = 4
+
+// Only rendered in this module: its variant styles can be extracted
+const Button = useStyled('button', {
+	base: {
+		className: "us-z2pkxm", style: { color: 'black', gap },
+		dark: { style: { color: 'white' } },
+	},
+	variants: {
+		size: {
+			sm: { className: "us-170hroo", style: { fontSize: 12 } },
+			lg: { className: "button-lg us-1y41yc7", style: { fontSize: 18 } },
+		},
+		tone: {
+			solid: { className: "us-fd36v7", style: { gap: 8 } },
+		},
+	},
+	compoundVariants: [
+		{ size: 'lg', tone: 'solid', props: { style: { fontSize: 20 } } },
+	],
+})
+
+export const SubmitButton = () => <Button size='lg' tone='solid' />
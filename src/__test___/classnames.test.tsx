@@ -1,7 +1,8 @@
 import React from 'react'
 import { render, screen } from '@testing-library/react'
-import { expect, test } from 'bun:test'
+import { afterEach, describe, expect, test } from 'bun:test'
 import { useStyled } from '../useStyled'
+import { configureUseStyled, resetUseStyledOptions } from '../config'
 
 const Text = useStyled('p', {
 	name: 'Text',
@@ -75,3 +76,54 @@ test('Teste 3', () => {
 		'tracking-wider text-red-500 font-degular-regular text-h4',
 	)
 })
+
+describe('classMerge option', () => {
+	const Box = useStyled('div', {
+		base: { className: 'p-2 ds-size-sm' },
+		variants: {
+			size: {
+				lg: { className: 'p-4 ds-size-lg' },
+			},
+		},
+	})
+
+	afterEach(() => {
+		resetUseStyledOptions()
+	})
+
+	test('false concatenates classes without resolving conflicts', () => {
+		configureUseStyled({ classMerge: false })
+		render(<Box size='lg'>Box</Box>)
+
+		expect(screen.getByText('Box').className).toBe(
+			'p-2 ds-size-sm p-4 ds-size-lg',
+		)
+	})
+
+	test('a tailwind-merge config extension adds custom class groups', () => {
+		configureUseStyled({
+			classMerge: {
+				extend: { classGroups: { 'ds-size': ['ds-size-sm', 'ds-size-lg'] } },
+			},
+		})
+		render(<Box size='lg'>Box</Box>)
+
+		expect(screen.getByText('Box').className).toBe('p-4 ds-size-lg')
+	})
+
+	test('a custom merge function is used for variants and final props', () => {
+		const calls: string[] = []
+		configureUseStyled({
+			classMerge: className => {
+				calls.push(className)
+				return className.toUpperCase()
+			},
+		})
+		render(<Box size='lg' className='extra'>Box</Box>)
+
+		expect(screen.getByText('Box').className).toBe(
+			'P-2 DS-SIZE-SM P-4 DS-SIZE-LG EXTRA',
+		)
+		expect(calls).toContain('p-4 ds-size-lg')
+	})
+})
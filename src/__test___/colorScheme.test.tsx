@@ -0,0 +1,116 @@
+import { act, render, screen } from '@testing-library/react'
+import { renderToString } from 'react-dom/server'
+import { afterEach, expect, test } from 'bun:test'
+import { useStyled } from '../useStyled'
+import { ColorSchemeProvider } from '../colorScheme'
+import { configureUseStyled, resetUseStyledOptions } from '../config'
+
+afterEach(() => {
+	resetUseStyledOptions()
+})
+
+const SchemeBox = useStyled('div', {
+	base: {
+		'data-testid': 'scheme-box',
+		className: 'box',
+		style: { color: 'black', padding: '4px' },
+		dark: { className: 'box-dark', style: { color: 'white' } },
+	},
+	variants: {
+		intent: {
+			primary: {
+				style: { backgroundColor: 'blue' },
+				light: { className: 'primary-light' },
+				dark: { style: { backgroundColor: 'navy' } },
+			},
+		},
+	},
+	compoundVariants: [
+		{
+			intent: 'primary',
+			props: { dark: { 'data-compound': 'dark' } },
+		},
+	],
+})
+
+test('applies the light branches when the light scheme is forced', () => {
+	render(
+		<ColorSchemeProvider scheme='light'>
+			<SchemeBox intent='primary' />
+		</ColorSchemeProvider>,
+	)
+	const element = screen.getByTestId('scheme-box')
+
+	expect(element).toHaveClass('box', 'primary-light')
+	expect(element).not.toHaveClass('box-dark')
+	expect(element).toHaveStyle({
+		color: 'black',
+		padding: '4px',
+		backgroundColor: 'blue',
+	})
+	expect(element).not.toHaveAttribute('data-compound')
+	expect(element).not.toHaveAttribute('dark')
+})
+
+test('applies the dark branches when the dark scheme is forced', () => {
+	render(
+		<ColorSchemeProvider scheme='dark'>
+			<SchemeBox intent='primary' />
+		</ColorSchemeProvider>,
+	)
+	const element = screen.getByTestId('scheme-box')
+
+	expect(element).toHaveClass('box', 'box-dark')
+	expect(element).not.toHaveClass('primary-light')
+	expect(element).toHaveStyle({
+		color: 'white',
+		padding: '4px',
+		backgroundColor: 'navy',
+	})
+	expect(element).toHaveAttribute('data-compound', 'dark')
+})
+
+test('falls back to prefers-color-scheme without a provider', () => {
+	configureUseStyled({
+		matchMedia: query => query === '(prefers-color-scheme: dark)',
+	})
+	render(<SchemeBox />)
+
+	expect(screen.getByTestId('scheme-box')).toHaveClass('box', 'box-dark')
+})
+
+test('re-renders when prefers-color-scheme changes without a provider', () => {
+	let dark = false
+	const listeners = new Set<() => void>()
+	configureUseStyled({
+		matchMedia: query => dark && query === '(prefers-color-scheme: dark)',
+		subscribeMedia: (_query, onChange) => {
+			listeners.add(onChange)
+			return () => listeners.delete(onChange)
+		},
+	})
+	render(<SchemeBox intent='primary' />)
+
+	const element = screen.getByTestId('scheme-box')
+	expect(element).toHaveClass('box', 'primary-light')
+	expect(element).not.toHaveClass('box-dark')
+
+	act(() => {
+		dark = true
+		for (const listener of listeners) listener()
+	})
+
+	expect(element).toHaveClass('box', 'box-dark')
+	expect(element).not.toHaveClass('primary-light')
+	expect(element).toHaveStyle({ color: 'white', backgroundColor: 'navy' })
+	expect(element).toHaveAttribute('data-compound', 'dark')
+})
+
+test('renders the light scheme on the server', () => {
+	configureUseStyled({ matchMedia: () => true })
+
+	const html = renderToString(<SchemeBox intent='primary' />)
+
+	expect(html).toContain('class="box primary-light"')
+	expect(html).not.toContain('box-dark')
+})
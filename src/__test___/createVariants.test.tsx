@@ -0,0 +1,74 @@
+import { render, screen } from '@testing-library/react'
+import { describe, expect, test } from 'bun:test'
+import { createVariants } from '../createVariants'
+import { useStyled } from '../useStyled'
+
+const button = createVariants({
+	base: { className: 'btn', style: { color: '$colors.text' } },
+	variants: {
+		size: {
+			sm: { className: 'btn-sm' },
+			lg: { className: 'btn-lg', style: { padding: 12 } },
+		},
+		block: {
+			true: { className: 'w-full' },
+		},
+	},
+	defaultVariants: { size: 'sm' },
+	compoundVariants: [
+		{ size: 'lg', block: true, props: { 'aria-label': 'large block' } },
+	],
+})
+
+describe('createVariants', () => {
+	test('resolves base props and default variants', () => {
+		expect(button()).toEqual({
+			className: 'btn btn-sm',
+			style: { color: '$colors.text' },
+		})
+	})
+
+	test('resolves variants, compound variants and extra props', () => {
+		expect(
+			button({ size: 'lg', block: true, className: 'extra', id: 'cta' }),
+		).toEqual({
+			className: 'btn btn-lg w-full extra',
+			style: { color: '$colors.text', padding: 12 },
+			'aria-label': 'large block',
+			id: 'cta',
+		})
+	})
+
+	test('resolves theme tokens and color scheme branches from options', () => {
+		const themed = createVariants({
+			base: {
+				style: { color: '$colors.text' },
+				dark: { className: 'is-dark' },
+			},
+		})
+
+		expect(
+			themed({}, { theme: { colors: { text: 'black' } }, colorScheme: 'dark' }),
+		).toEqual({ className: 'is-dark', style: { color: 'black' } })
+	})
+
+	test('exposes its config and variant keys', () => {
+		expect(button.variantKeys).toEqual(['size', 'block'])
+		expect(button.config.defaultVariants).toEqual({ size: 'sm' })
+	})
+
+	test('can be handed to useStyled', () => {
+		const Button = useStyled('button', button)
+		render(
+			<Button size='lg' block>
+				Click
+			</Button>,
+		)
+
+		const element = screen.getByText('Click')
+		expect(element).toHaveClass('btn', 'btn-lg', 'w-full')
+		expect(element).toHaveAttribute('aria-label', 'large block')
+		expect(element).not.toHaveAttribute('size')
+		expect(element).not.toHaveAttribute('block')
+	})
+})
@@ -0,0 +1,141 @@
+import { describe, expect, test } from 'bun:test'
+import { existsSync, readFileSync, readdirSync } from 'node:fs'
+import { join } from 'node:path'
+import { toAtomicRule } from '../css'
+import { extractStyles } from '../extract'
+import { useStyledPlugin } from '../plugins'
+
+const fixturesDir = join(import.meta.dir, '__fixtures__', 'extract')
+const readFixture = (name: string, file: string) =>
+	readFileSync(join(fixturesDir, name, file), 'utf8')
+
+describe('extractStyles fixtures', () => {
+	for (const name of readdirSync(fixturesDir)) {
+		test(name, () => {
+			const filename = join(fixturesDir, name, 'input.tsx')
+			const result = extractStyles(readFixture(name, 'input.tsx'), filename)
+
+			// Fixtures without expected output must be left to the runtime
+			if (!existsSync(join(fixturesDir, name, 'output.css'))) {
+				expect(result).toBeNull()
+				return
+			}
+			expect(result?.css).toBe(readFixture(name, 'output.css'))
+			expect(result?.code).toBe(readFixture(name, 'output.tsx'))
+		})
+	}
+})
+
+describe('extractStyles', () => {
+	test('returns null for modules without useStyled calls', () => {
+		expect(extractStyles("const a = { style: { color: 'red' } }", 'a.ts')).toBeNull()
+	})
+
+	test('emits responsive rules for the configured breakpoints', () => {
+		const result = extractStyles(
+			"useStyled('div', { variants: { size: { lg: { style: { padding: 12 } } } } })",
+			'a.ts',
+			{ breakpoints: { tablet: '(min-width: 600px)' } },
+		)
+		const { className } = toAtomicRule('padding', 12)
+
+		expect(result?.css).toBe(
+			`.${className}{padding:12px}\n@media (min-width: 600px){\n\t.tablet\\:${className}.tablet\\:${className}{padding:12px}\n}\n`,
+		)
+	})
+
+	test('keeps properties set by compound variants inline', () => {
+		const result = extractStyles(
+			`useStyled('div', {
+				base: { style: { color: 'black', margin: 0, padding: 4 } },
+				variants: { size: { sm: {} } },
+				compoundVariants: [
+					{ size: 'sm', style: { color: 'red' } },
+					{ size: 'sm', props: { dark: { style: { margin: 2 } } } },
+				],
+			})`,
+			'a.ts',
+		)
+		const { className } = toAtomicRule('padding', 4)
+
+		expect(result?.css).toBe(`.${className}{padding:4px}\n`)
+		expect(result?.code).toContain("style: { color: 'black', margin: 0 }")
+	})
+
+	test('keeps properties set by platform branches inline', () => {
+		const result = extractStyles(
+			`useStyled('div', {
+				base: {
+					style: { color: 'black', margin: 0, padding: 4 },
+					platform: { web: { style: { color: 'red' } }, ios: { dark: { style: { margin: 2 } } } },
+				},
+			})`,
+			'a.ts',
+		)
+		const { className } = toAtomicRule('padding', 4)
+
+		expect(result?.css).toBe(`.${className}{padding:4px}\n`)
+		expect(result?.code).toContain("style: { color: 'black', margin: 0 }")
+	})
+
+	test('keeps values that could break out of their rule inline', () => {
+		const result = extractStyles(
+			"useStyled('div', { base: { style: { color: 'red}body{display:none', padding: 4 } } })",
+			'a.ts',
+		)
+		const { className } = toAtomicRule('padding', 4)
+
+		expect(result?.css).toBe(`.${className}{padding:4px}\n`)
+		expect(result?.code).toContain("style: { color: 'red}body{display:none' }")
+	})
+
+	test('extracts from custom function names', () => {
+		const result = extractStyles(
+			"styled('div', { base: { style: { zIndex: 2 } } })",
+			'a.ts',
+			{ functionNames: ['styled'] },
+		)
+		const { className } = toAtomicRule('zIndex', 2)
+
+		expect(result?.css).toBe(`.${className}{z-index:2}\n`)
+	})
+})
+
+describe('atomic rules', () => {
+	test('converts property names and adds units where needed', () => {
+		expect(toAtomicRule('backgroundColor', 'red').declaration).toBe(
+			'background-color:red',
+		)
+		expect(toAtomicRule('WebkitTransition', 'none').declaration).toBe(
+			'-webkit-transition:none',
+		)
+		expect(toAtomicRule('marginTop', 4).declaration).toBe('margin-top:4px')
+		expect(toAtomicRule('lineHeight', 1.5).declaration).toBe('line-height:1.5')
+	})
+
+	test('gives equal declarations the same class', () => {
+		expect(toAtomicRule('padding', 8).className).toBe(
+			toAtomicRule('padding', '8px').className,
+		)
+		expect(toAtomicRule('padding', 8).className).not.toBe(
+			toAtomicRule('padding', 4).className,
+		)
+	})
+})
+
+describe('useStyledPlugin', () => {
+	test('bundles the generated stylesheet with the rewritten module', async () => {
+		const result = await Bun.build({
+			entrypoints: [join(fixturesDir, 'basic', 'input.tsx')],
+			plugins: [useStyledPlugin()],
+			external: ['use-styled'],
+		})
+		expect(result.success).toBe(true)
+
+		const js = result.outputs.find(output => output.kind === 'entry-point')
+		const css = result.outputs.find(output => output.path.endsWith('.css'))
+		expect(await js?.text()).toContain('box us-m92pvu us-1guesl8 us-14kqw15')
+		expect(await css?.text()).toContain('.us-m92pvu')
+		expect(await css?.text()).toContain('display: flex')
+	})
+})
@@ -0,0 +1,119 @@
+import { render } from '@testing-library/react'
+import { afterEach, expect, spyOn, test } from 'bun:test'
+import { useStyled } from '../useStyled'
+import { configureUseStyled, resetUseStyledOptions } from '../config'
+import { createMemorySink } from '../inspector'
+
+const Button = useStyled('button', {
+	name: 'Button',
+	base: { className: 'btn' },
+	variants: {
+		size: { sm: { className: 'btn-sm' }, lg: { className: 'btn-lg' } },
+		tone: { info: { className: 'btn-info' }, danger: { className: 'btn-danger' } },
+	},
+	defaultVariants: { size: 'sm' },
+	compoundVariants: [
+		{ size: 'lg', tone: 'danger', className: 'btn-loud' },
+		{ tone: ['info', 'danger'], props: { 'data-toned': true } },
+	],
+})
+
+const IconButton = useStyled('button', { name: 'IconButton', base: { className: 'icon' } })
+const Card = useStyled('div', { name: 'Card', base: { className: 'card' } })
+
+afterEach(() => {
+	resetUseStyledOptions()
+})
+
+test('debug traces describe each render', () => {
+	const memory = createMemorySink()
+	configureUseStyled({ debug: { match: 'Button', sink: memory.sink } })
+
+	render(<Button tone='info' title='Save' />)
+
+	expect(memory.traces).toHaveLength(1)
+	const [trace] = memory.traces
+	expect(trace?.name).toBe('Button')
+	expect(trace?.incomingProps).toEqual({ tone: 'info', title: 'Save' })
+	expect(trace?.defaultVariants).toEqual({ size: 'sm' })
+	expect(trace?.activeVariants).toEqual({ size: 'sm', tone: 'info' })
+	expect(trace?.directProps).toEqual({ title: 'Save' })
+	expect(trace?.variantProps).toEqual({ className: 'btn-sm btn-info' })
+	expect(trace?.compoundVariants).toEqual([
+		{
+			index: 0,
+			matched: false,
+			conditions: [
+				{ key: 'size', condition: 'lg', value: 'sm', matched: false },
+				{ key: 'tone', condition: 'danger', value: 'info', matched: false },
+			],
+		},
+		{
+			index: 1,
+			matched: true,
+			conditions: [
+				{ key: 'tone', condition: ['info', 'danger'], value: 'info', matched: true },
+			],
+		},
+	])
+	expect(trace?.finalProps).toEqual({
+		className: 'btn btn-sm btn-info',
+		'data-toned': true,
+		title: 'Save',
+	})
+	expect(trace?.changes).toEqual({
+		className: { from: undefined, to: 'btn btn-sm btn-info' },
+		'data-toned': { from: undefined, to: true },
+	})
+})
+
+test('debug.match enables components by name pattern', () => {
+	const memory = createMemorySink()
+	configureUseStyled({ debug: { match: '*Button', sink: memory.sink } })
+
+	render(
+		<>
+			<Button />
+			<IconButton />
+			<Card />
+		</>,
+	)
+	expect(memory.traces.map(trace => trace.name)).toEqual(['Button', 'IconButton'])
+
+	memory.clear()
+	configureUseStyled({ debug: { match: /^Card$/g, sink: memory.sink } })
+	render(
+		<>
+			<Card />
+			<Card />
+		</>,
+	)
+	expect(memory.traces.map(trace => trace.name)).toEqual(['Card', 'Card'])
+})
+
+test('components are not traced without debug or a matching name', () => {
+	const memory = createMemorySink()
+	configureUseStyled({ debug: { sink: memory.sink } })
+
+	render(<Button />)
+
+	expect(memory.traces).toHaveLength(0)
+})
+
+test('the console sink groups each trace', () => {
+	const groupSpy = spyOn(console, 'groupCollapsed').mockImplementation(() => {})
+	const endSpy = spyOn(console, 'groupEnd').mockImplementation(() => {})
+	const logSpy = spyOn(console, 'log').mockImplementation(() => {})
+	try {
+		const Debugged = useStyled('div', { name: 'Debugged', debug: true })
+		render(<Debugged />)
+
+		expect(groupSpy).toHaveBeenCalledWith('[Debugged] render')
+		expect(endSpy).toHaveBeenCalledTimes(1)
+		expect(logSpy).toHaveBeenCalledWith('Active variants:', {})
+	} finally {
+		groupSpy.mockRestore()
+		endSpy.mockRestore()
+		logSpy.mockRestore()
+	}
+})
@@ -0,0 +1,112 @@
+import { render, screen } from '@testing-library/react'
+import { afterEach, expect, test } from 'bun:test'
+import { useStyled } from '../useStyled'
+import { ColorSchemeProvider } from '../colorScheme'
+import { configureUseStyled, resetUseStyledOptions } from '../config'
+import { mergeConfigs, resolvePlatformProps } from '../utils'
+
+afterEach(() => {
+	resetUseStyledOptions()
+})
+
+const PlatformBox = useStyled('div', {
+	base: {
+		'data-testid': 'platform-box',
+		className: 'p-4',
+		style: { color: 'black' },
+		platform: {
+			web: { className: 'cursor-pointer' },
+			native: { style: { color: 'gray' } },
+			ios: { style: { color: 'blue' }, dark: { style: { color: 'white' } } },
+		},
+	},
+	variants: {
+		size: {
+			lg: {
+				style: { fontSize: '20px' },
+				platform: { android: { style: { fontSize: '22px' } } },
+			},
+		},
+	},
+	compoundVariants: [
+		{ size: 'lg', props: { platform: { ios: { 'data-compound': 'ios' } } } },
+	],
+})
+
+test('resolvePlatformProps applies the native branch, then the branch of the platform', () => {
+	const props = {
+		className: 'p-4',
+		style: { margin: 0 },
+		platform: {
+			web: { className: 'p-2' },
+			native: { style: { margin: 4, padding: 4 } },
+			android: { style: { margin: 8 } },
+		},
+	}
+
+	expect(resolvePlatformProps(props, 'web')).toEqual({
+		className: 'p-2',
+		style: { margin: 0 },
+	})
+	expect(resolvePlatformProps(props, 'android')).toEqual({
+		className: 'p-4',
+		style: { margin: 8, padding: 4 },
+	})
+	expect(resolvePlatformProps(props, 'native')).toEqual({
+		className: 'p-4',
+		style: { margin: 4, padding: 4 },
+	})
+	expect(resolvePlatformProps({ className: 'p-4' }, 'ios')).toEqual({ className: 'p-4' })
+})
+
+test('platform branches apply on web by default', () => {
+	render(<PlatformBox size='lg' />)
+
+	const element = screen.getByTestId('platform-box')
+	expect(element.className).toBe('p-4 cursor-pointer')
+	expect(element).toHaveStyle({ color: 'black', fontSize: '20px' })
+	expect(element).not.toHaveAttribute('data-compound')
+})
+
+test('the injected platform resolver selects the branches of base, variants and compound variants', () => {
+	configureUseStyled({ platform: () => 'ios' })
+	const { rerender } = render(<PlatformBox size='lg' />)
+
+	const element = screen.getByTestId('platform-box')
+	expect(element.className).toBe('p-4')
+	expect(element).toHaveStyle({ color: 'blue', fontSize: '20px' })
+	expect(element).toHaveAttribute('data-compound', 'ios')
+
+	// Platform branches may hold color scheme branches
+	rerender(
+		<ColorSchemeProvider scheme='dark'>
+			<PlatformBox size='lg' />
+		</ColorSchemeProvider>,
+	)
+	expect(screen.getByTestId('platform-box')).toHaveStyle({ color: 'white' })
+
+	configureUseStyled({ platform: () => 'android' })
+	rerender(<PlatformBox size='lg' />)
+	expect(screen.getByTestId('platform-box')).toHaveStyle({
+		color: 'gray',
+		fontSize: '22px',
+	})
+})
+
+test('mergeConfigs merges the platform branches of both configs', () => {
+	const merged = mergeConfigs(
+		{ base: { platform: { ios: { className: 'p-2', style: { margin: 0 } } } } },
+		{
+			base: {
+				platform: { ios: { className: 'p-4' }, android: { className: 'p-1' } },
+			},
+		},
+	)
+
+	expect(merged.base).toEqual({
+		platform: {
+			ios: { className: 'p-4', style: { margin: 0 } },
+			android: { className: 'p-1' },
+		},
+	})
+})
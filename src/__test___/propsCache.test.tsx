@@ -0,0 +1,132 @@
+import { render, screen } from '@testing-library/react'
+import { afterEach, expect, test } from 'bun:test'
+import { useStyled } from '../useStyled'
+import { configureUseStyled, resetUseStyledOptions } from '../config'
+import { ThemeProvider } from '../theme'
+
+// Counts the class merges, which happen whenever the config props are resolved
+const countClassMerges = () => {
+	const counter = { merges: 0 }
+	configureUseStyled({
+		classMerge: className => {
+			counter.merges++
+			return className
+		},
+	})
+	return counter
+}
+
+afterEach(() => {
+	resetUseStyledOptions()
+})
+
+test('useStyled resolves each combination of variant values once', () => {
+	const Box = useStyled('div', {
+		base: { className: 'box' },
+		variants: { size: { sm: { className: 'small' }, lg: { className: 'large' } } },
+	})
+	const counter = countClassMerges()
+
+	const { rerender } = render(<Box data-testid='box' size='sm' />)
+	const mergesPerResolution = counter.merges
+	rerender(<Box data-testid='box' size='lg' />)
+	rerender(<Box data-testid='box' size='sm' />)
+	rerender(<Box data-testid='box' size='sm' />)
+
+	expect(mergesPerResolution).toBeGreaterThan(0)
+	expect(counter.merges).toBe(mergesPerResolution * 2)
+	expect(screen.getByTestId('box')).toHaveClass('box', 'small')
+})
+
+test('useStyled merges direct props over the cached props on every render', () => {
+	const Box = useStyled('div', {
+		base: { className: 'p-2', style: { color: 'red' } },
+		variants: { tone: { info: { className: 'text-blue-500' } } },
+	})
+
+	render(
+		<>
+			<Box data-testid='first' tone='info' className='p-4' style={{ margin: 4 }} />
+			<Box data-testid='second' tone='info' title='plain' />
+		</>,
+	)
+
+	const first = screen.getByTestId('first')
+	expect(first).toHaveClass('p-4', 'text-blue-500')
+	expect(first).not.toHaveClass('p-2')
+	expect(first).toHaveStyle({ color: 'red', margin: '4px' })
+
+	const second = screen.getByTestId('second')
+	expect(second).toHaveClass('p-2', 'text-blue-500')
+	expect(second).not.toHaveClass('p-4')
+	expect(second).not.toHaveStyle({ margin: '4px' })
+	expect(second).toHaveAttribute('title', 'plain')
+})
+
+test('useStyled resolves tokens again when the theme changes', () => {
+	const Box = useStyled('div', {
+		base: { 'data-testid': 'box', style: { color: '$colors.text' } },
+	})
+
+	const { rerender } = render(
+		<ThemeProvider theme={{ colors: { text: 'black' } }}>
+			<Box />
+		</ThemeProvider>,
+	)
+	expect(screen.getByTestId('box')).toHaveStyle({ color: 'black' })
+
+	rerender(
+		<ThemeProvider theme={{ colors: { text: 'white' } }}>
+			<Box />
+		</ThemeProvider>,
+	)
+	expect(screen.getByTestId('box')).toHaveStyle({ color: 'white' })
+})
+
+test('useStyled resolves the config on every render with `cache: false`', () => {
+	const Box = useStyled('div', {
+		variants: { size: { sm: { className: 'small' } } },
+		cache: false,
+	})
+	const counter = countClassMerges()
+
+	const { rerender } = render(<Box size='sm' />)
+	const mergesPerResolution = counter.merges
+	rerender(<Box size='sm' />)
+
+	expect(mergesPerResolution).toBeGreaterThan(0)
+	expect(counter.merges).toBe(mergesPerResolution * 2)
+})
+
+test('useStyled resolves variants in config order, whatever the prop order', () => {
+	const Box = useStyled('div', {
+		base: { 'data-testid': 'box' },
+		variants: {
+			a: { x: { style: { color: 'red' } } },
+			b: { y: { style: { color: 'blue' } } },
+		},
+	})
+
+	const { rerender } = render(<Box a='x' b='y' />)
+	expect(screen.getByTestId('box')).toHaveStyle({ color: 'blue' })
+
+	rerender(<Box b='y' a='x' />)
+	expect(screen.getByTestId('box')).toHaveStyle({ color: 'blue' })
+})
+
+test('useStyled applies passed variants over defaulted ones, and caches them apart', () => {
+	const Box = useStyled('div', {
+		base: { 'data-testid': 'box' },
+		variants: {
+			a: { x: { style: { color: 'red' } } },
+			b: { y: { style: { color: 'blue' } } },
+		},
+		defaultVariants: { b: 'y' },
+	})
+
+	const { rerender } = render(<Box a='x' />)
+	expect(screen.getByTestId('box')).toHaveStyle({ color: 'red' })
+
+	rerender(<Box a='x' b='y' />)
+	expect(screen.getByTestId('box')).toHaveStyle({ color: 'blue' })
+})
@@ -0,0 +1,133 @@
+import { act, fireEvent, render, screen } from '@testing-library/react'
+import { expect, mock, test } from 'bun:test'
+import { useStyled } from '../useStyled'
+import { configureUseStyled, resetUseStyledOptions } from '../config'
+
+const InteractiveButton = useStyled('button', {
+	base: {
+		'data-testid': 'interactive',
+		style: { color: 'black', backgroundColor: 'white' },
+		hoverStyle: { backgroundColor: 'lightgray' },
+		pressStyle: { backgroundColor: 'gray' },
+		focusStyle: { outline: '2px solid blue' },
+		disabledStyle: { opacity: 0.5 },
+	},
+	variants: {
+		intent: {
+			danger: {
+				style: { color: 'red' },
+				hoverStyle: { color: 'darkred' },
+			},
+		},
+	},
+})
+
+test('applies hover, press and focus styles from interaction state', () => {
+	render(<InteractiveButton intent='danger' />)
+	const element = screen.getByTestId('interactive')
+
+	expect(element).toHaveStyle({ color: 'red', backgroundColor: 'white' })
+	expect(element).not.toHaveAttribute('hoverStyle')
+
+	// hoverStyle from base and variant are merged
+	fireEvent.mouseEnter(element)
+	expect(element).toHaveStyle({ color: 'darkred', backgroundColor: 'lightgray' })
+
+	fireEvent.mouseDown(element)
+	expect(element).toHaveStyle({ backgroundColor: 'gray' })
+
+	fireEvent.mouseUp(element)
+	expect(element).toHaveStyle({ backgroundColor: 'lightgray' })
+
+	fireEvent.mouseLeave(element)
+	expect(element).toHaveStyle({ color: 'red', backgroundColor: 'white' })
+
+	fireEvent.focus(element)
+	expect(element).toHaveStyle({ outline: '2px solid blue' })
+
+	fireEvent.blur(element)
+	expect(element).not.toHaveStyle({ outline: '2px solid blue' })
+})
+
+test('applies disabledStyle and ignores hover while disabled', () => {
+	render(<InteractiveButton disabled />)
+	const element = screen.getByTestId('interactive')
+
+	expect(element).toHaveStyle({ opacity: '0.5' })
+
+	fireEvent.mouseEnter(element)
+	expect(element).toHaveStyle({ backgroundColor: 'white' })
+})
+
+test('composes user-supplied handlers instead of overwriting them', () => {
+	const onMouseEnter = mock(() => {})
+	const onFocus = mock(() => {})
+	render(<InteractiveButton onMouseEnter={onMouseEnter} onFocus={onFocus} />)
+	const element = screen.getByTestId('interactive')
+
+	fireEvent.mouseEnter(element)
+	fireEvent.focus(element)
+
+	expect(onMouseEnter).toHaveBeenCalledTimes(1)
+	expect(onFocus).toHaveBeenCalledTimes(1)
+	expect(element).toHaveStyle({
+		backgroundColor: 'lightgray',
+		outline: '2px solid blue',
+	})
+})
+
+test('uses onPressIn / onPressOut on React Native', () => {
+	const originalProduct = navigator.product
+	Object.defineProperty(navigator, 'product', {
+		value: 'ReactNative',
+		configurable: true,
+	})
+
+	let pressableProps: Record<string, any> = {}
+	const Pressable = (props: Record<string, any>) => {
+		pressableProps = props
+		return null
+	}
+	const onPressIn = mock(() => {})
+	const StyledPressable = useStyled(Pressable, {
+		base: { style: { opacity: 1 }, pressStyle: { opacity: 0.7 } },
+	})
+
+	render(<StyledPressable onPressIn={onPressIn} />)
+	expect(pressableProps.onMouseDown).toBeUndefined()
+	expect(pressableProps.style).toEqual({ opacity: 1 })
+
+	act(() => pressableProps.onPressIn({}))
+	expect(onPressIn).toHaveBeenCalledTimes(1)
+	expect(pressableProps.style).toEqual({ opacity: 0.7 })
+
+	act(() => pressableProps.onPressOut({}))
+	expect(pressableProps.style).toEqual({ opacity: 1 })
+
+	Object.defineProperty(navigator, 'product', {
+		value: originalProduct,
+		configurable: true,
+	})
+})
+
+test('uses the native handlers on the platform reported by the platform resolver', () => {
+	configureUseStyled({ platform: () => 'ios' })
+	try {
+		let pressableProps: Record<string, any> = {}
+		const Pressable = (props: Record<string, any>) => {
+			pressableProps = props
+			return null
+		}
+		const StyledPressable = useStyled(Pressable, {
+			base: { style: { opacity: 1 }, pressStyle: { opacity: 0.7 } },
+		})
+
+		render(<StyledPressable />)
+		expect(pressableProps.onMouseDown).toBeUndefined()
+
+		act(() => pressableProps.onPressIn({}))
+		expect(pressableProps.style).toEqual({ opacity: 0.7 })
+	} finally {
+		resetUseStyledOptions()
+	}
+})
@@ -0,0 +1,95 @@
+import { render, screen } from '@testing-library/react'
+import { afterEach, beforeEach, expect, test } from 'bun:test'
+import { useStyled } from '../useStyled'
+import { configureUseStyled, resetUseStyledOptions } from '../config'
+import { ThemeProvider } from '../theme'
+import { resolveShorthandProps } from '../shorthands'
+
+// The `Shorthands` interface isn't augmented in tests, so shorthand props bypass the types
+const createUntyped = useStyled as (component: any, config: any) => any
+
+const shorthands = {
+	p: 'padding',
+	mx: ['marginLeft', 'marginRight'],
+	bg: 'backgroundColor',
+	gap: { className: (value: number) => `gap-${value}` },
+} as const
+
+beforeEach(() => {
+	configureUseStyled({ shorthands })
+})
+
+afterEach(() => {
+	resetUseStyledOptions()
+})
+
+test('resolveShorthandProps expands shorthands into style and className', () => {
+	expect(resolveShorthandProps({ p: 8, mx: 4, gap: 2 }, shorthands)).toEqual({
+		style: { padding: 8, marginLeft: 4, marginRight: 4 },
+		className: 'gap-2',
+	})
+	expect(resolveShorthandProps({ p: undefined, bg: 'red' }, shorthands)).toEqual({
+		style: { backgroundColor: 'red' },
+	})
+	expect(resolveShorthandProps({ p: undefined }, shorthands)).toEqual({})
+})
+
+test('shorthand props override config props and are overridden by direct props', () => {
+	const Box = createUntyped('div', {
+		base: {
+			'data-testid': 'box',
+			className: 'gap-1 flex',
+			style: { padding: '2px', margin: '1px', color: 'black' },
+		},
+	})
+
+	render(<Box p='8px' mx='4px' gap={2} style={{ marginLeft: '16px' }} />)
+
+	const element = screen.getByTestId('box')
+	expect(element.className).toBe('flex gap-2')
+	expect(element).toHaveStyle({
+		padding: '8px',
+		marginLeft: '16px',
+		marginRight: '4px',
+		color: 'black',
+	})
+	// Shorthands are consumed, not forwarded to the element
+	expect(element).not.toHaveAttribute('p')
+	expect(element).not.toHaveAttribute('mx')
+})
+
+test('variants take precedence over shorthands of the same name', () => {
+	const Stack = createUntyped('div', {
+		base: { 'data-testid': 'stack' },
+		variants: { gap: { sm: { className: 'gap-sm' } } },
+	})
+
+	render(<Stack gap='sm' p='4px' />)
+
+	const element = screen.getByTestId('stack')
+	expect(element.className).toBe('gap-sm')
+	expect(element).toHaveStyle({ padding: '4px' })
+})
+
+test('shorthand values resolve theme tokens', () => {
+	const Box = createUntyped('div', { base: { 'data-testid': 'themed' } })
+
+	render(
+		<ThemeProvider theme={{ colors: { primary: 'blue' } }}>
+			<Box bg='$colors.primary' />
+		</ThemeProvider>,
+	)
+
+	expect(screen.getByTestId('themed')).toHaveStyle({ backgroundColor: 'blue' })
+})
+
+test('props are not shorthands unless configured', () => {
+	resetUseStyledOptions()
+	const Box = createUntyped('div', { base: { 'data-testid': 'plain' } })
+
+	render(<Box p='8px' />)
+
+	const element = screen.getByTestId('plain')
+	expect(element).toHaveAttribute('p', '8px')
+	expect(element.style.padding).toBe('')
+})
@@ -0,0 +1,204 @@
+import React from 'react'
+import { renderToString } from 'react-dom/server'
+import { render, screen } from '@testing-library/react'
+import { afterEach, describe, expect, test } from 'bun:test'
+import { useStyled } from '../useStyled'
+import { createStyleRegistry, StyleRegistryProvider } from '../styleRegistry'
+import { toAtomicRule } from '../css'
+import { configureUseStyled, resetUseStyledOptions } from '../config'
+
+// The `Shorthands` interface isn't augmented in tests, so shorthand props bypass the types
+const createUntyped = useStyled as (component: any, config: any) => any
+
+const Box = useStyled('div', {
+	base: {
+		'data-testid': 'box',
+		className: 'box',
+		style: { display: 'flex', padding: 8 },
+	},
+	variants: {
+		tone: {
+			primary: { style: { color: 'blue' } },
+		},
+	},
+})
+
+const Custom = (props: { style?: React.CSSProperties; 'data-testid'?: string }) => (
+	<span {...props} />
+)
+const StyledCustom = useStyled(Custom, {
+	base: { 'data-testid': 'custom', style: { color: 'red' } },
+})
+
+const flex = toAtomicRule('display', 'flex')
+const padding = toAtomicRule('padding', 8)
+const blue = toAtomicRule('color', 'blue')
+
+const getRegistryCss = () =>
+	[...document.head.querySelectorAll('style[data-use-styled]')]
+		.map(element => element.textContent)
+		.join('')
+
+afterEach(() => {
+	resetUseStyledOptions()
+	for (const element of document.head.querySelectorAll('style[data-use-styled]')) {
+		element.remove()
+	}
+})
+
+describe('StyleRegistryProvider on the server', () => {
+	test('renders styles as classes and serializes deduped rules', () => {
+		const registry = createStyleRegistry()
+		const html = renderToString(
+			<StyleRegistryProvider registry={registry}>
+				<Box tone='primary' />
+				<Box />
+			</StyleRegistryProvider>,
+		)
+
+		expect(html).toContain(
+			`class="box ${flex.className} ${padding.className} ${blue.className}"`,
+		)
+		expect(html).not.toContain('style=')
+		expect(registry.getStyleTag()).toBe(
+			`<style data-use-styled="${flex.className} ${padding.className} ${blue.className}">` +
+				`.${flex.className}{display:flex}.${padding.className}{padding:8px}.${blue.className}{color:blue}` +
+				'</style>',
+		)
+	})
+
+	test('keeps the styles of non-intrinsic components inline', () => {
+		const registry = createStyleRegistry()
+		const html = renderToString(
+			<StyleRegistryProvider registry={registry}>
+				<StyledCustom />
+			</StyleRegistryProvider>,
+		)
+
+		expect(html).toContain('style="color:red"')
+		expect(registry.getCss()).toBe('')
+	})
+
+	test('keeps style values that could break out of their rule inline', () => {
+		const registry = createStyleRegistry()
+		const hostile = {
+			backgroundImage: 'url(a)}body{display:none',
+			color: 'red;display:none',
+			content: '"unbalanced',
+			margin: '0 /* comment',
+			width: 'calc(100% - 1px',
+		}
+		const HostileBox = useStyled('div', {
+			base: { style: { ...hostile, backgroundColor: 'url(x)' } },
+		})
+		const html = renderToString(
+			<StyleRegistryProvider registry={registry}>
+				<HostileBox />
+			</StyleRegistryProvider>,
+		)
+
+		expect(registry.register(hostile)).toEqual({ className: '', style: hostile })
+		expect(registry.getCss()).not.toContain('body')
+		expect(registry.getCss()).not.toContain('display:none')
+		expect(registry.getCss()).toContain(
+			toAtomicRule('backgroundColor', 'url(x)').declaration,
+		)
+		expect(html).toContain('background-image:url(a)}body{display:none')
+	})
+
+	test('keeps direct and shorthand styles inline', () => {
+		configureUseStyled({ shorthands: { m: 'margin' } })
+		const ShorthandBox = createUntyped(Box, {})
+		const registry = createStyleRegistry()
+		const html = renderToString(
+			<StyleRegistryProvider registry={registry}>
+				<ShorthandBox m={2} style={{ padding: 12, transform: 'translateX(4px)' }} />
+			</StyleRegistryProvider>,
+		)
+
+		// `padding` is overridden by the direct style, so only `display` comes from the config
+		expect(html).toContain(`class="box ${flex.className}"`)
+		expect(html).toContain('style="padding:12px;margin:2px;transform:translateX(4px)"')
+		expect(registry.getCss()).toBe(`.${flex.className}{display:flex}`)
+	})
+
+	test('escapes style values that would close the tag', () => {
+		const registry = createStyleRegistry()
+		registry.register({ content: '"</style>"' })
+
+		expect(registry.getStyleTag()).not.toContain('</style>"')
+	})
+})
+
+describe('StyleRegistryProvider on the client', () => {
+	test('inserts the rendered rules in the document', () => {
+		render(
+			<StyleRegistryProvider registry={createStyleRegistry()}>
+				<Box tone='primary' />
+			</StyleRegistryProvider>,
+		)
+
+		expect(screen.getByTestId('box')).toHaveClass(
+			'box',
+			flex.className,
+			padding.className,
+			blue.className,
+		)
+		expect(screen.getByTestId('box')).not.toHaveAttribute('style')
+		expect(getRegistryCss()).toBe(
+			`.${flex.className}{display:flex}.${padding.className}{padding:8px}.${blue.className}{color:blue}`,
+		)
+	})
+
+	test('does not insert rules already rendered by the server again', () => {
+		const serverRegistry = createStyleRegistry()
+		renderToString(
+			<StyleRegistryProvider registry={serverRegistry}>
+				<Box />
+			</StyleRegistryProvider>,
+		)
+		document.head.insertAdjacentHTML('beforeend', serverRegistry.getStyleTag())
+
+		const clientRegistry = createStyleRegistry()
+		const { rerender } = render(
+			<StyleRegistryProvider registry={clientRegistry}>
+				<Box />
+			</StyleRegistryProvider>,
+		)
+		expect(getRegistryCss()).toBe(
+			`.${flex.className}{display:flex}.${padding.className}{padding:8px}`,
+		)
+
+		// Only the newly needed rule is inserted
+		rerender(
+			<StyleRegistryProvider registry={clientRegistry}>
+				<Box tone='primary' />
+			</StyleRegistryProvider>,
+		)
+		expect(getRegistryCss()).toBe(
+			`.${flex.className}{display:flex}.${padding.className}{padding:8px}.${blue.className}{color:blue}`,
+		)
+	})
+
+	test('repeated dynamic styles do not grow the registry', () => {
+		const registry = createStyleRegistry()
+		const { rerender } = render(
+			<StyleRegistryProvider registry={registry}>
+				<Box style={{ left: 0 }} />
+			</StyleRegistryProvider>,
+		)
+		const css = registry.getCss()
+
+		for (let left = 1; left <= 20; left++) {
+			rerender(
+				<StyleRegistryProvider registry={registry}>
+					<Box style={{ left }} />
+				</StyleRegistryProvider>,
+			)
+		}
+
+		expect(registry.getCss()).toBe(css)
+		expect(getRegistryCss()).toBe(css)
+		expect(screen.getByTestId('box')).toHaveStyle({ left: '20px' })
+	})
+})
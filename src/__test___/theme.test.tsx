@@ -0,0 +1,76 @@
+import { render, screen } from '@testing-library/react'
+import { expect, test } from 'bun:test'
+import { useStyled } from '../useStyled'
+import { ThemeProvider, useTheme } from '../theme'
+
+const lightTheme = { colors: { primary: 'blue', text: 'black' }, space: { 2: '8px' } }
+const darkTheme = { colors: { primary: 'navy', text: 'white' }, space: { 2: '8px' } }
+
+const ThemedBox = useStyled('div', {
+	base: {
+		'data-testid': 'themed-box',
+		style: { color: '$colors.text', padding: '$space.2' },
+	},
+	variants: {
+		intent: {
+			primary: { style: { backgroundColor: '$colors.primary' } },
+		},
+	},
+	compoundVariants: [
+		{ intent: 'primary', props: { style: { borderColor: '$colors.text' } } },
+	],
+})
+
+test('ThemeProvider resolves tokens in base, variants and compound variants', () => {
+	render(
+		<ThemeProvider theme={lightTheme}>
+			<ThemedBox intent='primary' />
+		</ThemeProvider>,
+	)
+
+	expect(screen.getByTestId('themed-box')).toHaveStyle({
+		color: 'black',
+		padding: '8px',
+		backgroundColor: 'blue',
+		borderColor: 'black',
+	})
+})
+
+test('switching themes at runtime re-renders consumers', () => {
+	const { rerender } = render(
+		<ThemeProvider theme={lightTheme}>
+			<ThemedBox intent='primary' />
+		</ThemeProvider>,
+	)
+	expect(screen.getByTestId('themed-box')).toHaveStyle({
+		backgroundColor: 'blue',
+	})
+
+	rerender(
+		<ThemeProvider theme={darkTheme}>
+			<ThemedBox intent='primary' />
+		</ThemeProvider>,
+	)
+	expect(screen.getByTestId('themed-box')).toHaveStyle({
+		color: 'white',
+		backgroundColor: 'navy',
+	})
+})
+
+test('useTheme returns the provided theme', () => {
+	let received: unknown
+	const Consumer = () => {
+		received = useTheme()
+		return null
+	}
+
+	render(<Consumer />)
+	expect(received).toBeUndefined()
+
+	render(
+		<ThemeProvider theme={darkTheme}>
+			<Consumer />
+		</ThemeProvider>,
+	)
+	expect(received).toBe(darkTheme)
+})
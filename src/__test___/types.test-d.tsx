@@ -0,0 +1,243 @@
+import React, { type CSSProperties } from 'react'
+import {
+	createVariants,
+	useStyled,
+	useStyledSlots,
+	type Config,
+	type FinalProps,
+	type ResponsiveValue,
+	type ShorthandProps,
+	type StyledComponent,
+	type ThemeToken,
+	type VariantProps,
+} from '../../index'
+
+// Type-level assertions, checked with `bun run test:types`.
+type Equal<A, B> = (<V>() => V extends A ? 1 : 2) extends <V>() => V extends B
+	? 1
+	: 2
+	? true
+	: false
+type Expect<T extends true> = T
+
+const Button = useStyled('button', {
+	variants: {
+		size: { sm: {}, lg: {} },
+		disabled: { true: {}, false: {} },
+		block: { true: {} },
+	},
+})
+
+type ButtonVariants = VariantProps<typeof Button>
+
+// String variants become a union of their keys, boolean variants a `boolean`
+type _StringUnion = Expect<
+	Equal<
+		ButtonVariants['size'],
+		'sm' | 'lg' | ResponsiveValue<'sm' | 'lg'> | undefined
+	>
+>
+type _Boolean = Expect<
+	Equal<
+		ButtonVariants['disabled'],
+		boolean | ResponsiveValue<boolean> | undefined
+	>
+>
+type _Keys = Expect<Equal<keyof ButtonVariants, 'size' | 'disabled' | 'block'>>
+
+// A variant defining only `true` is a boolean as well
+type _TrueOnly = Expect<
+	Equal<ButtonVariants['block'], boolean | ResponsiveValue<boolean> | undefined>
+>
+
+// Wrapper components can reuse the variant props
+const Wrapper = (props: ButtonVariants & { label: string }) => (
+	<Button {...props}>{props.label}</Button>
+)
+const wrapped = <Wrapper size='lg' disabled label='Save' />
+// @ts-expect-error `xl` is not a size
+const wrongSize = <Wrapper size='xl' label='Save' />
+
+// Extended components expose the variants of both configs
+const IconButton = useStyled(Button, {
+	variants: { icon: { left: {}, right: {} } },
+})
+type _Extended = Expect<
+	Equal<keyof VariantProps<typeof IconButton>, 'size' | 'disabled' | 'block' | 'icon'>
+>
+
+// Recipes and slots components
+const badge = createVariants({
+	variants: { tone: { info: {}, danger: {} }, outline: { true: {}, false: {} } },
+})
+type _Recipe = Expect<
+	Equal<
+		VariantProps<typeof badge>['tone'],
+		'info' | 'danger' | ResponsiveValue<'info' | 'danger'> | undefined
+	>
+>
+const Card = useStyledSlots(
+	{ root: 'div', title: 'h2' },
+	{ variants: { size: { sm: {}, lg: {} } } },
+)
+type _Slots = Expect<Equal<keyof VariantProps<typeof Card>, 'size'>>
+
+// Anything else has no variant props
+type _Other = Expect<Equal<VariantProps<'div'>, never>>
+
+// StyledComponent / FinalProps / Config describe the returned component
+type ButtonConfig = {
+	variants: { size: { sm: {}; lg: {} } }
+}
+type _Config = Expect<ButtonConfig extends Config ? true : false>
+declare const TypedButton: StyledComponent<'button', ButtonConfig>
+const typedElement = <TypedButton size='sm' type='submit' />
+type _FinalProps = Expect<
+	Equal<FinalProps<'button', ButtonConfig>['size'], ButtonVariants['size']>
+>
+type _NativeProps = Expect<
+	Equal<FinalProps<'button', ButtonConfig>['type'], 'submit' | 'reset' | 'button' | undefined>
+>
+
+// Non-polymorphic configs keep the `as` prop of the base component
+declare const Heading: React.FC<{ as?: 'h1' | 'h2'; children?: React.ReactNode }>
+const StyledHeading = useStyled(Heading, {})
+const headingElement = <StyledHeading as='h2' />
+// @ts-expect-error `as` takes the values of the base component
+const wrongHeadingElement = <StyledHeading as='h3' />
+type _OwnAs = Expect<Equal<FinalProps<typeof Heading, {}>['as'], 'h1' | 'h2' | undefined>>
+
+// Compound variant conditions accept values, arrays of values and negations
+useStyled('div', {
+	variants: { size: { sm: {}, md: {}, lg: {} }, active: { true: {} } },
+	compoundVariants: [
+		{ size: ['sm', 'md'], active: true, props: { className: 'a' } },
+		{ size: { not: 'lg' }, props: { className: 'b' } },
+		{ size: { not: ['sm', 'md'] }, active: [false], props: { className: 'c' } },
+	],
+})
+useStyled('div', {
+	variants: { size: { sm: {}, md: {} } },
+	compoundVariants: [
+		// @ts-expect-error `xl` is not a size
+		{ size: ['sm', 'xl'], props: { className: 'a' } },
+	],
+})
+useStyled('div', {
+	variants: { size: { sm: {}, md: {} } },
+	compoundVariants: [
+		// @ts-expect-error `xl` is not a size
+		{ size: { not: 'xl' }, props: { className: 'a' } },
+	],
+})
+
+// Compound variants accept `className` / `style` shorthands next to their conditions
+useStyled('div', {
+	variants: { size: { sm: {}, md: {} } },
+	compoundVariants: [
+		{ size: 'sm', className: 'a', style: { color: 'red' } },
+		{ size: 'md', className: 'b', props: { 'aria-label': 'md' } },
+	],
+})
+useStyled('div', {
+	variants: { size: { sm: {}, md: {} } },
+	compoundVariants: [
+		// @ts-expect-error shorthand styles are typed from the component
+		{ size: 'sm', style: { display: 1 } },
+	],
+})
+useStyled('div', {
+	variants: { size: { sm: {}, md: {} } },
+	compoundVariants: [
+		// @ts-expect-error only `className` and `style` are shorthands
+		{ size: 'sm', id: 'x' },
+	],
+})
+
+// `merge` keys are props of the component, and only handlers can be composed
+useStyled('button', {
+	merge: { onClick: 'compose', style: 'deep' },
+})
+useStyled('button', {
+	// @ts-expect-error `contentStyle` is not a prop of <button>
+	merge: { contentStyle: 'style' },
+})
+useStyled('button', {
+	// @ts-expect-error `title` is not a handler
+	merge: { title: 'compose' },
+})
+
+// Function variants take the type of their parameter and validate the props they return
+const Grid = useStyled('div', {
+	variants: {
+		columns: (value: number) => ({ style: { gridTemplateColumns: `repeat(${value}, 1fr)` } }),
+		align: { start: {}, end: {} },
+	},
+	defaultVariants: { columns: 2 },
+	compoundVariants: [{ columns: [1, 2], align: 'start', className: 'a' }],
+})
+const gridColumns = <Grid columns={3} align='end' />
+const responsiveGridColumns = <Grid columns={{ initial: 1, md: 3 }} />
+// @ts-expect-error `columns` takes a number
+const wrongGridColumns = <Grid columns='3' />
+// Function variants can take objects that are not keyed by breakpoints
+const AreaGrid = useStyled('div', {
+	variants: { area: (value: { cols: number }) => ({ style: { gap: value.cols } }) },
+})
+const gridArea = <AreaGrid area={{ cols: 3 }} />
+const responsiveGridArea = <AreaGrid area={{ initial: { cols: 1 }, md: { cols: 3 } }} />
+// @ts-expect-error `cols` is a number
+const wrongGridArea = <AreaGrid area={{ cols: '3' }} />
+useStyled('div', {
+	variants: { columns: (value: number) => ({ style: { gap: value } }) },
+	// @ts-expect-error `columns` takes a number
+	defaultVariants: { columns: 'two' },
+})
+useStyled('div', {
+	variants: {
+		// @ts-expect-error function variants return props of the component
+		columns: (value: number) => ({ style: { display: value } }),
+	},
+})
+
+// Shorthand props take the value of the style key they set, or the parameter of their class function
+type TestShorthands = {
+	p: 'padding'
+	mx: readonly ['marginLeft', 'marginRight']
+	gap: { className: (value: 1 | 2 | 4) => string }
+}
+type DivShorthands = ShorthandProps<'div', TestShorthands>
+type _ShorthandPadding = Expect<
+	Equal<DivShorthands['p'], CSSProperties['padding'] | ThemeToken | undefined>
+>
+const shorthandProps: DivShorthands = { p: 8, mx: '4px', gap: 2 }
+// @ts-expect-error `gap` takes 1, 2 or 4
+const wrongShorthandProps: DivShorthands = { gap: 3 }
+
+// Platform branches hold valid props of the component, and may hold color scheme branches
+useStyled('button', {
+	base: {
+		className: 'p-4',
+		platform: { web: { type: 'button' }, ios: { style: { color: 'blue' }, dark: { className: 'a' } } },
+	},
+	variants: { size: { lg: { platform: { android: { className: 'b' } } } } },
+	compoundVariants: [{ size: 'lg', props: { platform: { native: { className: 'c' } } } }],
+})
+useStyled('button', {
+	base: {
+		// @ts-expect-error `href` is not a prop of <button>
+		platform: { ios: { href: '/' } },
+	},
+})
+useStyled('button', {
+	base: {
+		// @ts-expect-error `windows` is not a platform
+		platform: { windows: { className: 'a' } },
+	},
+})
+useStyled('button', {
+	base: {
+		// @ts-expect-error branches are checked inside platform branches too
+		platform: { ios: { dark: { href: '/' } } },
+	},
+})
@@ -1,4 +1,5 @@
 import '@testing-library/jest-dom'
+import React from 'react'
 import { test, describe, expect } from 'bun:test'
 import { render, screen } from '@testing-library/react'
 import { useStyled } from '../useStyled'
@@ -216,3 +217,28 @@ describe('Original Test Example', () => {
 		})
 	})
 })
+
+describe('useSlot with ref-forwarding styled components', () => {
+	test('forwards ref through the decorated component and its clones', () => {
+		const Root = useStyled('button', {
+			base: { 'data-testid': 'slot-ref-root' },
+		})
+		const Label = useStyled('span', {})
+		const Decorated = useSlot(Root, { Label })
+		const Cloned = useSlot(Decorated, { Icon: Label })
+
+		expect(Cloned).not.toBe(Decorated)
+		expect(Cloned.Label).toBe(Label)
+		expect(Cloned.Icon).toBe(Label)
+
+		const decoratedRef = React.createRef<HTMLButtonElement>()
+		const { unmount } = render(<Decorated ref={decoratedRef} />)
+		expect(decoratedRef.current).toBe(screen.getByTestId('slot-ref-root'))
+		unmount()
+
+		const clonedRef = React.createRef<HTMLButtonElement>()
+		render(<Cloned ref={clonedRef} />)
+		expect(clonedRef.current).toBe(screen.getByTestId('slot-ref-root'))
+		expect(clonedRef.current).toBeInstanceOf(HTMLButtonElement)
+	})
+})
@@ -1,7 +1,9 @@
 import React from 'react'
-import { render, screen } from '@testing-library/react'
+import { act, fireEvent, render, screen } from '@testing-library/react'
+import { renderToString } from 'react-dom/server'
 import { expect, test } from 'bun:test'
 import { useStyled } from '../useStyled'
+import { configureUseStyled, resetUseStyledOptions } from '../config'
 import type { ComponentProps } from 'react'
 
 // VERY simple base component (no forwardRef)
@@ -199,3 +201,385 @@ test('useStyled works with native HTML tag string', () => {
 		padding: '20px', // from large variant
 	})
 })
+
+// Test 6: Ref forwarding to a native tag
+test('useStyled forwards ref to the underlying DOM node', () => {
+	const StyledInput = useStyled('input', {
+		base: { className: 'base-input', 'data-testid': 'styled-input' },
+	})
+	const ref = React.createRef<HTMLInputElement>()
+
+	render(<StyledInput ref={ref} />)
+
+	expect(ref.current).toBe(screen.getByTestId('styled-input'))
+	expect(ref.current).toBeInstanceOf(HTMLInputElement)
+})
+
+// Test 7: Ref forwarding through a forwardRef base component
+test('useStyled forwards ref through a forwardRef base component', () => {
+	const ForwardButton = React.forwardRef<
+		HTMLButtonElement,
+		ComponentProps<'button'>
+	>((props, ref) => <button ref={ref} {...props} />)
+	const StyledForwardButton = useStyled(ForwardButton, {
+		base: { 'data-testid': 'forward-button' },
+	})
+	const ref = React.createRef<HTMLButtonElement>()
+
+	render(<StyledForwardButton ref={ref} />)
+
+	expect(ref.current).toBe(screen.getByTestId('forward-button'))
+	expect(ref.current).toBeInstanceOf(HTMLButtonElement)
+})
+
+// Test 8: Responsive variant values
+test('useStyled accepts responsive variant values', () => {
+	configureUseStyled({ matchMedia: query => query === '(min-width: 768px)' })
+
+	render(<StyledButton size={{ initial: 'sm', md: 'md' }} />)
+	const buttonElement = screen.getByTestId('styled-button-test')
+
+	expect(buttonElement).toHaveClass('btn-sm', 'md:btn-md')
+	expect(buttonElement).toHaveStyle({ padding: '8px 16px', fontSize: '16px' })
+
+	resetUseStyledOptions()
+})
+
+test('useStyled re-renders responsive values when a breakpoint starts matching', () => {
+	const matching = new Set<string>()
+	const listeners = new Set<() => void>()
+	configureUseStyled({
+		matchMedia: query => matching.has(query),
+		subscribeMedia: (_query, onChange) => {
+			listeners.add(onChange)
+			return () => listeners.delete(onChange)
+		},
+	})
+
+	try {
+		render(<StyledButton size={{ initial: 'sm', md: 'md' }} />)
+		const buttonElement = screen.getByTestId('styled-button-test')
+		expect(buttonElement).toHaveStyle({ fontSize: '12px' })
+
+		act(() => {
+			matching.add('(min-width: 768px)')
+			for (const listener of listeners) listener()
+		})
+		expect(buttonElement).toHaveStyle({ fontSize: '16px' })
+	} finally {
+		resetUseStyledOptions()
+	}
+})
+
+test('useStyled picks initial responsive values on the server', () => {
+	configureUseStyled({ matchMedia: () => true })
+
+	try {
+		const html = renderToString(<StyledButton size={{ initial: 'sm', md: 'md' }} />)
+		expect(html).toContain('font-size:12px')
+	} finally {
+		resetUseStyledOptions()
+	}
+})
+
+// Test 9: Extending a styled component
+test('useStyled extends an existing styled component into a single render', () => {
+	const renders: string[] = []
+	const Base = React.forwardRef<HTMLButtonElement, ComponentProps<'button'>>(
+		(props, ref) => {
+			renders.push('base')
+			return <button ref={ref} {...props} />
+		},
+	)
+	Base.displayName = 'Base'
+	const ParentButton = useStyled(Base, {
+		base: { className: 'parent-base', style: { cursor: 'pointer' } },
+		variants: {
+			intent: {
+				primary: { className: 'parent-primary' },
+				secondary: { className: 'parent-secondary' },
+			},
+		},
+		defaultVariants: { intent: 'primary' },
+	})
+	const ChildButton = useStyled(ParentButton, {
+		base: {
+			className: 'child-base',
+			style: { border: 'none' },
+			'data-testid': 'child-button',
+		},
+		variants: {
+			intent: { secondary: { className: 'child-secondary' } },
+			shape: { round: { className: 'child-round' } },
+		},
+		defaultVariants: { intent: 'secondary' },
+		compoundVariants: [
+			{ intent: 'secondary', shape: 'round', props: { 'data-compound': 'yes' } },
+		],
+	})
+
+	const ref = React.createRef<HTMLButtonElement>()
+	render(<ChildButton ref={ref} shape='round' />)
+	const buttonElement = screen.getByTestId('child-button')
+
+	// Base component rendered once, without nested styled layers
+	expect(renders).toEqual(['base'])
+	expect(ChildButton.displayName).toBe('Styled(Base)')
+	expect(buttonElement).toHaveClass(
+		'parent-base',
+		'child-base',
+		'parent-secondary',
+		'child-secondary',
+		'child-round',
+	)
+	expect(buttonElement.classList.length).toBe(5)
+	expect(buttonElement).toHaveStyle({ cursor: 'pointer', border: 'none' })
+	expect(buttonElement).toHaveAttribute('data-compound', 'yes')
+	expect(ref.current).toBe(buttonElement)
+})
+
+// Test 10: Polymorphic `as` prop
+test('useStyled renders the `as` target of polymorphic components', () => {
+	const PolyButton = useStyled('button', {
+		polymorphic: true,
+		base: { className: 'poly-base', 'data-testid': 'poly' },
+		variants: {
+			intent: { primary: { className: 'poly-primary' } },
+		},
+	})
+	const RouterLink = React.forwardRef<
+		HTMLAnchorElement,
+		ComponentProps<'a'> & { to: string }
+	>(({ to, ...props }, ref) => <a ref={ref} href={to} {...props} />)
+
+	const { unmount } = render(<PolyButton />)
+	expect(screen.getByTestId('poly').tagName).toBe('BUTTON')
+	unmount()
+
+	const anchorRef = React.createRef<HTMLAnchorElement>()
+	const { unmount: unmountAnchor } = render(
+		<PolyButton as='a' href='/docs' intent='primary' ref={anchorRef} />,
+	)
+	const anchorElement = screen.getByTestId('poly')
+	expect(anchorElement.tagName).toBe('A')
+	expect(anchorElement).toHaveAttribute('href', '/docs')
+	expect(anchorElement).not.toHaveAttribute('as')
+	expect(anchorElement).toHaveClass('poly-base', 'poly-primary')
+	expect(anchorRef.current).toBe(anchorElement as HTMLAnchorElement)
+	unmountAnchor()
+
+	render(<PolyButton as={RouterLink} to='/home' intent='primary' />)
+	const linkElement = screen.getByTestId('poly')
+	expect(linkElement.tagName).toBe('A')
+	expect(linkElement).toHaveAttribute('href', '/home')
+	expect(linkElement).toHaveClass('poly-base', 'poly-primary')
+})
+
+// Test 11: Variant context propagation
+test('useStyled propagates published variants to inheriting descendants', () => {
+	const ContextButton = useStyled('button', {
+		name: 'Button',
+		provideVariants: true,
+		variants: {
+			intent: {
+				primary: { className: 'button-primary' },
+				danger: { className: 'button-danger' },
+			},
+			size: { sm: {}, lg: {} },
+		},
+		defaultVariants: { intent: 'primary', size: 'sm' },
+	})
+	const ButtonText = useStyled('span', {
+		variants: {
+			intent: {
+				primary: { className: 'text-primary' },
+				danger: { className: 'text-danger' },
+			},
+			size: {
+				sm: { className: 'text-sm' },
+				lg: { className: 'text-lg' },
+			},
+		},
+		defaultVariants: { intent: 'primary', size: 'lg' },
+		inheritVariants: { Button: ['intent'] },
+	})
+
+	render(
+		<>
+			<ContextButton intent='danger' size='lg'>
+				<ButtonText data-testid='inherited'>Inherited</ButtonText>
+				<ButtonText data-testid='explicit' intent='primary'>
+					Explicit
+				</ButtonText>
+			</ContextButton>
+			<ContextButton>
+				<ButtonText data-testid='inherited-default'>Default</ButtonText>
+			</ContextButton>
+			<ButtonText data-testid='standalone'>Standalone</ButtonText>
+		</>,
+	)
+
+	// Only `intent` is inherited; `size` keeps the text's own default
+	expect(screen.getByTestId('inherited')).toHaveClass('text-danger', 'text-lg')
+	// Explicit props win over inherited values
+	expect(screen.getByTestId('explicit')).toHaveClass('text-primary')
+	// The parent's defaults are published as well
+	expect(screen.getByTestId('inherited-default')).toHaveClass('text-primary')
+	// Outside a publishing parent, defaults apply
+	expect(screen.getByTestId('standalone')).toHaveClass('text-primary', 'text-lg')
+})
+
+test('useStyled compound variants match arrays of values and negations', () => {
+	const Badge = useStyled('span', {
+		variants: {
+			size: { sm: {}, md: {}, lg: {} },
+			intent: { primary: {}, ghost: {} },
+		},
+		defaultVariants: { size: 'sm', intent: 'primary' },
+		compoundVariants: [
+			{ size: ['sm', 'md'], intent: 'primary', props: { className: 'compact' } },
+			{ intent: { not: 'ghost' }, props: { 'data-filled': 'yes' } },
+		],
+	})
+
+	render(
+		<>
+			<Badge data-testid='md-primary' size='md' />
+			<Badge data-testid='lg-primary' size='lg' />
+			<Badge data-testid='sm-ghost' intent='ghost' />
+		</>,
+	)
+
+	expect(screen.getByTestId('md-primary')).toHaveClass('compact')
+	expect(screen.getByTestId('md-primary')).toHaveAttribute('data-filled', 'yes')
+	expect(screen.getByTestId('lg-primary')).not.toHaveClass('compact')
+	expect(screen.getByTestId('lg-primary')).toHaveAttribute('data-filled', 'yes')
+	expect(screen.getByTestId('sm-ghost')).not.toHaveClass('compact')
+	expect(screen.getByTestId('sm-ghost')).not.toHaveAttribute('data-filled')
+})
+
+test('useStyled merges className and style of overlapping compound variants', () => {
+	const Tag = useStyled('span', {
+		variants: {
+			size: { sm: {}, lg: {} },
+			tone: { info: {}, danger: {} },
+		},
+		compoundVariants: [
+			{ size: 'sm', className: 'tag-sm', style: { padding: '2px' } },
+			{ tone: 'danger', className: 'tag-danger', style: { color: 'red' } },
+			{
+				size: 'sm',
+				tone: 'danger',
+				props: { className: 'tag-sm-danger', style: { color: 'darkred' } },
+			},
+		],
+	})
+
+	render(<Tag data-testid='tag' size='sm' tone='danger' />)
+
+	const element = screen.getByTestId('tag')
+	expect(element).toHaveClass('tag-sm', 'tag-danger', 'tag-sm-danger')
+	expect(element).toHaveStyle({ padding: '2px', color: 'darkred' })
+})
+
+test('useStyled merges props declared in `merge` with their strategy', () => {
+	const List = ({
+		contentContainerStyle,
+		tags,
+	}: { contentContainerStyle?: React.CSSProperties; tags?: string[] }) => (
+		<div data-testid='list' style={contentContainerStyle} data-tags={tags?.join(',')} />
+	)
+	const StyledList = useStyled(List, {
+		merge: { contentContainerStyle: 'style', tags: 'concat' },
+		base: { contentContainerStyle: { padding: '4px' }, tags: ['base'] },
+		variants: {
+			spaced: { true: { contentContainerStyle: { margin: '8px' }, tags: ['spaced'] } },
+		},
+	})
+
+	render(<StyledList spaced tags={['direct']} contentContainerStyle={{ color: 'red' }} />)
+
+	const element = screen.getByTestId('list')
+	expect(element).toHaveStyle({ padding: '4px', margin: '8px', color: 'red' })
+	expect(element).toHaveAttribute('data-tags', 'base,spaced,direct')
+})
+
+test('useStyled composes handlers declared with the `compose` strategy', () => {
+	const calls: string[] = []
+	const Pressable = useStyled('button', {
+		merge: { onClick: 'compose' },
+		base: { 'data-testid': 'pressable', onClick: () => calls.push('base') },
+		variants: {
+			guarded: {
+				true: {
+					onClick: (event: React.MouseEvent) => {
+						calls.push('variant')
+						event.preventDefault()
+					},
+				},
+			},
+		},
+	})
+
+	const { rerender } = render(<Pressable onClick={() => calls.push('direct')} />)
+	fireEvent.click(screen.getByTestId('pressable'))
+	expect(calls).toEqual(['base', 'direct'])
+
+	// A handler calling preventDefault stops the handlers after it
+	calls.length = 0
+	rerender(<Pressable guarded onClick={() => calls.push('direct')} />)
+	fireEvent.click(screen.getByTestId('pressable'))
+	expect(calls).toEqual(['base', 'variant'])
+})
+
+test('useStyled overwrites handlers without the `compose` strategy', () => {
+	const calls: string[] = []
+	const Pressable = useStyled('button', {
+		base: { 'data-testid': 'pressable', onClick: () => calls.push('base') },
+	})
+
+	render(<Pressable onClick={() => calls.push('direct')} />)
+	fireEvent.click(screen.getByTestId('pressable'))
+
+	expect(calls).toEqual(['direct'])
+})
+
+test('useStyled computes function variants from the prop value', () => {
+	const Grid = useStyled('div', {
+		base: { 'data-testid': 'grid', style: { display: 'grid' } },
+		variants: {
+			columns: (value: number) => ({
+				style: { gridTemplateColumns: `repeat(${value}, 1fr)` },
+			}),
+			gap: (value: number) => ({ style: { gap: `${value * 4}px` } }),
+		},
+		defaultVariants: { columns: 2 },
+	})
+
+	const { rerender } = render(<Grid gap={2} />)
+	const element = screen.getByTestId('grid')
+	expect(element).toHaveStyle({
+		display: 'grid',
+		gridTemplateColumns: 'repeat(2, 1fr)',
+		gap: '8px',
+	})
+
+	rerender(<Grid columns={5} gap={3} />)
+	expect(element).toHaveStyle({ gridTemplateColumns: 'repeat(5, 1fr)', gap: '12px' })
+})
+
+test('useStyled flattens React Native style arrays passed as props', () => {
+	let viewProps: Record<string, any> = {}
+	const View = (props: Record<string, any>) => {
+		viewProps = props
+		return null
+	}
+	const StyledView = useStyled(View, {
+		base: { style: { padding: 4, color: 'black' } },
+		variants: { raised: { true: { style: [{ elevation: 2 }, { padding: 8 }] } } },
+	})
+
+	render(<StyledView raised style={[{ color: 'red' }, false, [{ margin: 1 }]]} />)
+
+	expect(viewProps.style).toEqual({ padding: 8, color: 'red', elevation: 2, margin: 1 })
+})
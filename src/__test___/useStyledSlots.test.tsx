@@ -0,0 +1,112 @@
+import React from 'react'
+import { render, screen } from '@testing-library/react'
+import { describe, expect, test } from 'bun:test'
+import { useStyledSlots } from '../useStyledSlots'
+
+const Card = useStyledSlots(
+	{ root: 'div', title: 'h2', icon: 'span' },
+	{
+		name: 'Card',
+		base: {
+			root: { className: 'card', 'data-testid': 'card' },
+			title: { className: 'card-title', 'data-testid': 'card-title' },
+			icon: { className: 'card-icon', 'data-testid': 'card-icon' },
+		},
+		variants: {
+			size: {
+				sm: {
+					root: { className: 'card-sm' },
+					title: { className: 'title-sm' },
+				},
+				lg: {
+					root: { className: 'card-lg' },
+					title: { className: 'title-lg', style: { fontSize: '24px' } },
+					icon: { className: 'icon-lg' },
+				},
+			},
+			tone: {
+				muted: { title: { className: 'title-muted' } },
+			},
+		},
+		defaultVariants: { size: 'sm' },
+		compoundVariants: [
+			{ size: 'lg', tone: 'muted', props: { icon: { 'aria-hidden': true } } },
+		],
+	},
+)
+
+describe('useStyledSlots structure', () => {
+	test('attaches every non-root slot as a capitalized static component', () => {
+		expect(Card.Title).toBeDefined()
+		expect(Card.Icon).toBeDefined()
+		expect(Card.displayName).toBe('Styled(Card)')
+		expect(Card.Title.displayName).toBe('Styled(Card.Title)')
+	})
+})
+
+describe('useStyledSlots rendering', () => {
+	test('applies base and default variants to every slot', () => {
+		render(
+			<Card>
+				<Card.Title>Title</Card.Title>
+				<Card.Icon />
+			</Card>,
+		)
+
+		expect(screen.getByTestId('card')).toHaveClass('card', 'card-sm')
+		expect(screen.getByTestId('card-title')).toHaveClass(
+			'card-title',
+			'title-sm',
+		)
+		expect(screen.getByTestId('card-icon')).toHaveClass('card-icon')
+		expect(screen.getByTestId('card-icon').classList.length).toBe(1)
+	})
+
+	test('flows variant values chosen on the root to its slots', () => {
+		render(
+			<Card size='lg' tone='muted'>
+				<Card.Title>Title</Card.Title>
+				<Card.Icon />
+			</Card>,
+		)
+
+		const root = screen.getByTestId('card')
+		const title = screen.getByTestId('card-title')
+		const icon = screen.getByTestId('card-icon')
+
+		expect(root).toHaveClass('card', 'card-lg')
+		expect(root).not.toHaveAttribute('size')
+		expect(title).toHaveClass('card-title', 'title-lg', 'title-muted')
+		expect(title).toHaveStyle({ fontSize: '24px' })
+		expect(title).not.toHaveAttribute('tone')
+		expect(icon).toHaveClass('card-icon', 'icon-lg')
+		expect(icon).toHaveAttribute('aria-hidden', 'true')
+	})
+
+	test('lets a slot override an inherited variant value', () => {
+		render(
+			<Card size='lg'>
+				<Card.Title size='sm'>Title</Card.Title>
+			</Card>,
+		)
+
+		expect(screen.getByTestId('card')).toHaveClass('card-lg')
+		expect(screen.getByTestId('card-title')).toHaveClass('title-sm')
+		expect(screen.getByTestId('card-title')).not.toHaveClass('title-lg')
+	})
+
+	test('forwards refs on the root and on slots', () => {
+		const rootRef = React.createRef<HTMLDivElement>()
+		const titleRef = React.createRef<HTMLHeadingElement>()
+		render(
+			<Card ref={rootRef}>
+				<Card.Title ref={titleRef}>Title</Card.Title>
+			</Card>,
+		)
+
+		expect(rootRef.current).toBe(screen.getByTestId('card') as HTMLDivElement)
+		expect(titleRef.current).toBe(
+			screen.getByTestId('card-title') as HTMLHeadingElement,
+		)
+	})
+})
@@ -1,11 +1,20 @@
-import { expect, test } from 'bun:test'
+import { afterEach, expect, test } from 'bun:test'
 import {
 	cn,
 	mergeStyles,
 	resolveVariantProps,
 	resolveCompoundVariantProps,
 	mergeFinalProps,
+	mergeConfigs,
+	compileConfig,
+	resolveStyleTokens,
+	resolveColorSchemeProps,
 } from '../utils'
+import { configureUseStyled, resetUseStyledOptions } from '../config'
+
+afterEach(() => {
+	resetUseStyledOptions()
+})
 
 test('cn should merge class names correctly', () => {
 	// Basic test
@@ -77,6 +86,43 @@ test('mergeStyles should merge style objects correctly', () => {
 	})
 })
 
+test('mergeStyles flattens React Native style arrays and drops falsy entries', () => {
+	expect(mergeStyles({ a: 1 }, [{ b: 2 }, { c: 3 }])).toEqual({ a: 1, b: 2, c: 3 })
+	expect(
+		mergeStyles([{ a: 1, b: 1 }, false, [null, { b: 2 }, [{ c: 2 }]]], { c: 3 }),
+	).toEqual({ a: 1, b: 2, c: 3 })
+	expect(mergeStyles([{ a: 1 }])).toEqual({ a: 1 })
+	expect(mergeStyles([false, null], undefined)).toBeUndefined()
+})
+
+test('mergeStyles resolves registered styles with the configured flattenStyle', () => {
+	const registered: Record<number, object> = { 1: { color: 'red' }, 2: { margin: 4 } }
+	const flatten = (style: unknown): object | undefined =>
+		Array.isArray(style)
+			? Object.assign({}, ...style.map(flatten))
+			: typeof style === 'number'
+				? registered[style]
+				: (style as object | undefined) || undefined
+	configureUseStyled({ flattenStyle: flatten })
+
+	expect(mergeStyles({ padding: 1 }, 1, [2, { color: 'blue' }])).toEqual({
+		padding: 1,
+		color: 'blue',
+		margin: 4,
+	})
+})
+
+test('mergeFinalProps merges style arrays of every source in order', () => {
+	expect(
+		mergeFinalProps(
+			{ style: [{ color: 'black', margin: 0 }, { padding: 1 }] },
+			{ style: [{ padding: 2 }] },
+			{ style: { margin: 3 } },
+			{ style: [{ color: 'red' }, false] },
+		),
+	).toEqual({ style: { color: 'red', margin: 3, padding: 2 } })
+})
+
 // Tests for resolveVariantProps
 test('resolveVariantProps should resolve props from active variants', () => {
 	const configVariants = {
@@ -223,6 +269,212 @@ test('resolveCompoundVariantProps should resolve props from matching compound va
 	).toEqual({})
 })
 
+test('resolveCompoundVariantProps merges className and style of every matching entry', () => {
+	const compoundVariantsConfig = [
+		{
+			size: 'sm',
+			props: { className: 'p-2 text-sm', style: { color: 'red', margin: 0 } },
+		},
+		{
+			size: 'sm',
+			color: 'primary',
+			className: 'p-4',
+			style: { color: 'blue' },
+			props: { className: 'font-bold', 'aria-label': 'small primary' },
+		},
+	]
+
+	expect(
+		resolveCompoundVariantProps(compoundVariantsConfig, {
+			size: 'sm',
+			color: 'primary',
+		}),
+	).toEqual({
+		className: 'text-sm p-4 font-bold',
+		style: { color: 'blue', margin: 0 },
+		'aria-label': 'small primary',
+	})
+
+	// Shorthands alone, without `props`
+	expect(
+		resolveCompoundVariantProps(
+			[{ size: 'lg', className: 'p-8', style: { margin: 4 } }],
+			{ size: 'lg' },
+		),
+	).toEqual({ className: 'p-8', style: { margin: 4 } })
+})
+
+test('resolveCompoundVariantProps matches arrays of values and negated conditions', () => {
+	const compoundVariantsConfig = [
+		{
+			size: ['sm', 'md'],
+			intent: 'primary',
+			props: { 'data-small-primary': true },
+		},
+		{
+			intent: { not: 'ghost' },
+			props: { 'data-filled': true },
+		},
+		{
+			size: { not: ['sm', 'md'] },
+			disabled: [true],
+			props: { 'data-large-disabled': true },
+		},
+	]
+
+	expect(
+		resolveCompoundVariantProps(compoundVariantsConfig, {
+			size: 'md',
+			intent: 'primary',
+		}),
+	).toEqual({ 'data-small-primary': true, 'data-filled': true })
+
+	expect(
+		resolveCompoundVariantProps(compoundVariantsConfig, {
+			size: 'lg',
+			intent: 'ghost',
+			disabled: true,
+		}),
+	).toEqual({ 'data-large-disabled': true })
+
+	// A missing variant value is not part of an array, and is anything but a negated value
+	expect(resolveCompoundVariantProps(compoundVariantsConfig, {})).toEqual({
+		'data-filled': true,
+	})
+})
+
+test('compileConfig indexes variant keys and boolean variants', () => {
+	const config = {
+		variants: {
+			size: { sm: { className: 'p-2' } },
+			block: { true: { className: 'w-full' }, false: { className: 'w-auto' } },
+		},
+	}
+	const { variantKeys, variantKeySet } = compileConfig(config)
+
+	expect(variantKeys).toEqual(['size', 'block'])
+	expect(variantKeySet.has('block')).toBe(true)
+	expect(variantKeySet.has('className')).toBe(false)
+	expect(resolveVariantProps(config.variants, { block: true })).toEqual({ className: 'w-full' })
+	expect(resolveVariantProps(config.variants, { block: 'false' })).toEqual({ className: 'w-auto' })
+})
+
+test('compiled configs follow classMerge changes made after compilation', () => {
+	const config = {
+		base: { className: 'p-2', dark: { className: 'p-4' } },
+		variants: {
+			tone: { info: { className: 'm-2', dark: { className: 'm-4' } } },
+		},
+	}
+	compileConfig(config)
+	configureUseStyled({ classMerge: false })
+
+	expect(
+		resolveVariantProps(config.variants, { tone: 'info' }, { colorScheme: 'dark' }),
+	).toEqual({ className: 'm-2 m-4' })
+	expect(mergeFinalProps(config.base, {}, {}, {}, { colorScheme: 'dark' })).toEqual({
+		className: 'p-2 p-4',
+	})
+})
+
+test('merge strategies apply to variants, compound variants and final props', () => {
+	const merge = {
+		contentContainerStyle: 'style',
+		contentClassName: 'class',
+		tags: 'concat',
+		meta: 'deep',
+	} as const
+	const configVariants = {
+		size: {
+			lg: {
+				contentContainerStyle: { padding: 8 },
+				contentClassName: 'p-2',
+				tags: ['size'],
+				meta: { size: { value: 'lg' } },
+			},
+		},
+		tone: {
+			info: {
+				contentContainerStyle: { color: 'blue' },
+				contentClassName: 'p-4',
+				tags: 'tone',
+				meta: { size: { unit: 'px' }, tone: 'info' },
+			},
+		},
+	}
+	const activeVariants = { size: 'lg', tone: 'info' }
+
+	const variantProps = resolveVariantProps(configVariants, activeVariants, { merge })
+	expect(variantProps).toEqual({
+		contentContainerStyle: { padding: 8, color: 'blue' },
+		contentClassName: 'p-4',
+		tags: ['size', 'tone'],
+		meta: { size: { value: 'lg', unit: 'px' }, tone: 'info' },
+	})
+
+	const compoundProps = resolveCompoundVariantProps(
+		[
+			{ size: 'lg', props: { tags: ['compound-1'] } },
+			{ tone: 'info', props: { tags: ['compound-2'], meta: { compound: true } } },
+		],
+		activeVariants,
+		{ merge },
+	)
+	expect(compoundProps).toEqual({
+		tags: ['compound-1', 'compound-2'],
+		meta: { compound: true },
+	})
+
+	expect(
+		mergeFinalProps(
+			{ contentContainerStyle: { margin: '$space.1' }, tags: ['base'] },
+			variantProps,
+			compoundProps,
+			{ tags: ['direct'], meta: { size: { value: 'sm' } } },
+			{ merge, theme: { space: { 1: 4 } } },
+		),
+	).toEqual({
+		contentContainerStyle: { margin: 4, padding: 8, color: 'blue' },
+		contentClassName: 'p-4',
+		tags: ['base', 'size', 'tone', 'compound-1', 'compound-2', 'direct'],
+		meta: { size: { value: 'sm', unit: 'px' }, tone: 'info', compound: true },
+	})
+
+	// Without strategies, later values overwrite earlier ones
+	expect(mergeFinalProps({ tags: ['base'] }, {}, {}, { tags: ['direct'] })).toEqual({
+		tags: ['direct'],
+	})
+})
+
+test('the compose strategy chains handlers until one prevents the default', () => {
+	const calls: string[] = []
+	const { onPress } = mergeFinalProps(
+		{ onPress: () => calls.push('base') },
+		{ onPress: () => calls.push('variant') },
+		{},
+		{ onPress: () => calls.push('direct') },
+		{ merge: { onPress: 'compose' } },
+	) as { onPress: (event: object) => void }
+
+	// React Native events expose isDefaultPrevented()
+	onPress({ isDefaultPrevented: () => false })
+	expect(calls).toEqual(['base', 'variant', 'direct'])
+
+	calls.length = 0
+	onPress({ isDefaultPrevented: () => calls.length > 0 })
+	expect(calls).toEqual(['base'])
+})
+
+test('mergeConfigs merges the merge strategies of both configs', () => {
+	const merged = mergeConfigs(
+		{ merge: { tags: 'concat' }, base: { tags: ['parent'] } },
+		{ merge: { meta: 'deep' }, base: { tags: ['child'] } },
+	)
+
+	expect(merged.merge).toEqual({ tags: 'concat', meta: 'deep' })
+	expect(merged.base).toEqual({ tags: ['parent', 'child'] })
+})
+
 // Tests for mergeFinalProps
 test('mergeFinalProps should merge props in the correct order', () => {
 	const baseProps = {
@@ -374,3 +626,243 @@ test('mergeFinalProps handles complex prop types and functions', () => {
 	// Check ref
 	expect(finalProps.ref).toBe(refObject)
 })
+
+// Tests for responsive variant values
+test('resolveVariantProps emits breakpoint-prefixed classes for responsive values', () => {
+	const configVariants = {
+		size: {
+			sm: { className: 'text-sm px-2' },
+			lg: { className: 'text-lg px-4' },
+		},
+	}
+
+	expect(
+		resolveVariantProps(configVariants, { size: { initial: 'sm', md: 'lg' } }),
+	).toEqual({ className: 'text-sm px-2 md:text-lg md:px-4' })
+
+	// Breakpoints are emitted in configured order, regardless of object key order
+	expect(
+		resolveVariantProps(configVariants, { size: { lg: 'lg', initial: 'sm' } }),
+	).toEqual({ className: 'text-sm px-2 lg:text-lg lg:px-4' })
+})
+
+test('resolveVariantProps picks style props from the matching breakpoint', () => {
+	const configVariants = {
+		size: {
+			sm: { style: { padding: 4 }, 'data-size': 'sm' },
+			md: { style: { padding: 8 }, 'data-size': 'md' },
+			lg: { style: { padding: 16 }, 'data-size': 'lg' },
+		},
+	}
+	const activeVariants = { size: { initial: 'sm', md: 'md', xl: 'lg' } }
+
+	// No breakpoint matches: initial value
+	configureUseStyled({ matchMedia: () => false })
+	expect(resolveVariantProps(configVariants, activeVariants)).toEqual({
+		style: { padding: 4 },
+		'data-size': 'sm',
+	})
+
+	// Only md matches
+	configureUseStyled({ matchMedia: query => query === '(min-width: 768px)' })
+	expect(resolveVariantProps(configVariants, activeVariants)).toEqual({
+		style: { padding: 8 },
+		'data-size': 'md',
+	})
+
+	// Custom breakpoints with a provider matching every query: largest wins
+	configureUseStyled({
+		breakpoints: {
+			sm: 'small',
+			md: 'medium',
+			lg: 'large',
+			xl: 'xlarge',
+			'2xl': 'xxlarge',
+		},
+		matchMedia: () => true,
+	})
+	expect(resolveVariantProps(configVariants, activeVariants)).toEqual({
+		style: { padding: 16 },
+		'data-size': 'lg',
+	})
+})
+
+test('resolveVariantProps calls function variants with the value and the active variants', () => {
+	const configVariants = {
+		gap: (value: number, variants: Record<string, unknown>) => ({
+			className: variants.dense ? 'gap-dense' : 'gap',
+			style: { gap: value * 4 },
+			light: { 'data-scheme': 'light' },
+		}),
+		dense: { true: { style: { padding: 2 } } },
+	}
+
+	expect(resolveVariantProps(configVariants, { gap: 2 })).toEqual({
+		className: 'gap',
+		style: { gap: 8 },
+	})
+	expect(
+		resolveVariantProps(configVariants, { gap: 3, dense: true }, { colorScheme: 'light' }),
+	).toEqual({
+		className: 'gap-dense',
+		style: { gap: 12, padding: 2 },
+		'data-scheme': 'light',
+	})
+	// Inactive function variants are not called
+	expect(resolveVariantProps(configVariants, { dense: true })).toEqual({
+		style: { padding: 2 },
+	})
+})
+
+test('resolveVariantProps calls function variants for each breakpoint of responsive values', () => {
+	const configVariants = {
+		columns: (value: number) => ({
+			className: `cols-${value}`,
+			style: { gridTemplateColumns: `repeat(${value}, 1fr)` },
+		}),
+	}
+
+	configureUseStyled({ matchMedia: query => query === '(min-width: 768px)' })
+	expect(resolveVariantProps(configVariants, { columns: { initial: 1, md: 3 } })).toEqual({
+		className: 'cols-1 md:cols-3',
+		style: { gridTemplateColumns: 'repeat(3, 1fr)' },
+	})
+})
+
+test('resolveVariantProps only reads objects keyed by breakpoints as responsive values', () => {
+	const configVariants = {
+		area: (value: Record<string, number>) => ({
+			className: `area-${Object.keys(value).join('-')}`,
+		}),
+	}
+
+	expect(resolveVariantProps(configVariants, { area: { cols: 3 } })).toEqual({
+		className: 'area-cols',
+	})
+	// A single key outside the breakpoints makes the whole object a plain value
+	expect(resolveVariantProps(configVariants, { area: { initial: 1, cols: 3 } })).toEqual({
+		className: 'area-initial-cols',
+	})
+	expect(resolveVariantProps(configVariants, { area: {} })).toEqual({ className: 'area-' })
+})
+
+test('resolveCompoundVariantProps matches responsive values on the active breakpoint', () => {
+	const compoundVariantsConfig = [
+		{ size: 'lg', color: 'primary', props: { 'data-compound': true } },
+	]
+	const activeVariants = {
+		size: { initial: 'sm', md: 'lg' },
+		color: 'primary',
+	}
+
+	configureUseStyled({ matchMedia: () => false })
+	expect(
+		resolveCompoundVariantProps(compoundVariantsConfig, activeVariants),
+	).toEqual({})
+
+	configureUseStyled({ matchMedia: query => query === '(min-width: 768px)' })
+	expect(
+		resolveCompoundVariantProps(compoundVariantsConfig, activeVariants),
+	).toEqual({ 'data-compound': true })
+})
+
+// Tests for mergeConfigs
+test('mergeConfigs merges a parent config with a child config', () => {
+	const parent = {
+		base: { className: 'p-2', style: { color: 'red' }, id: 'parent' },
+		variants: {
+			size: { sm: { className: 'text-sm' }, md: { className: 'text-md' } },
+		},
+		defaultVariants: { size: 'sm' },
+		compoundVariants: [{ size: 'sm', props: { 'data-parent': true } }],
+	}
+	const child = {
+		base: { className: 'p-4', style: { margin: 1 }, id: 'child' },
+		variants: {
+			size: { md: { className: 'text-lg', style: { padding: 2 } } },
+			tone: { muted: { className: 'opacity-50' } },
+		},
+		defaultVariants: { tone: 'muted' },
+		compoundVariants: [{ tone: 'muted', props: { 'data-child': true } }],
+	}
+
+	expect(mergeConfigs(parent, child)).toEqual({
+		base: { className: 'p-4', style: { color: 'red', margin: 1 }, id: 'child' },
+		variants: {
+			size: {
+				sm: { className: 'text-sm' },
+				md: { className: 'text-lg', style: { padding: 2 } },
+			},
+			tone: { muted: { className: 'opacity-50' } },
+		},
+		defaultVariants: { size: 'sm', tone: 'muted' },
+		compoundVariants: [
+			{ size: 'sm', props: { 'data-parent': true } },
+			{ tone: 'muted', props: { 'data-child': true } },
+		],
+	})
+})
+
+// Tests for theme tokens
+test('resolveStyleTokens replaces $token references with theme values', () => {
+	const theme = {
+		colors: { primary: 'blue', text: { muted: 'gray' } },
+		space: { 4: 16 },
+	}
+
+	expect(
+		resolveStyleTokens(
+			{
+				color: '$colors.text.muted',
+				backgroundColor: '$colors.primary',
+				padding: '$space.4',
+				margin: 2,
+			},
+			theme,
+		),
+	).toEqual({ color: 'gray', backgroundColor: 'blue', padding: 16, margin: 2 })
+
+	// Unknown tokens and plain strings are left untouched
+	const style = { color: '$colors.unknown', border: '1px solid red' }
+	expect(resolveStyleTokens(style, theme)).toBe(style)
+
+	// Without a theme or a style nothing happens
+	expect(resolveStyleTokens(style, undefined)).toBe(style)
+	expect(resolveStyleTokens(undefined, theme)).toBeUndefined()
+})
+
+test('mergeFinalProps resolves tokens in the merged style', () => {
+	const final = mergeFinalProps(
+		{ style: { color: '$colors.primary' } },
+		{ style: { padding: '$space.4' } },
+		{},
+		{ style: { margin: '$space.4' } },
+		{ theme: { colors: { primary: 'blue' }, space: { 4: 16 } } },
+	)
+	expect(final.style).toEqual({ color: 'blue', padding: 16, margin: 16 })
+})
+
+// Tests for color scheme branches
+test('resolveColorSchemeProps applies the branch of the active scheme', () => {
+	const props = {
+		className: 'text-black',
+		style: { padding: 4, color: 'black' },
+		dark: { className: 'text-white', style: { color: 'white' } },
+		light: { id: 'light' },
+	}
+
+	expect(resolveColorSchemeProps(props, 'dark')).toEqual({
+		className: 'text-white',
+		style: { padding: 4, color: 'white' },
+	})
+	expect(resolveColorSchemeProps(props, 'light')).toEqual({
+		className: 'text-black',
+		style: { padding: 4, color: 'black' },
+		id: 'light',
+	})
+
+	// Props without branches are returned as is
+	const plain = { className: 'plain' }
+	expect(resolveColorSchemeProps(plain, 'dark')).toBe(plain)
+	expect(resolveColorSchemeProps(undefined, 'dark')).toBeUndefined()
+})
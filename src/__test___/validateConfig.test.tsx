@@ -0,0 +1,164 @@
+import { render } from '@testing-library/react'
+import { afterEach, beforeEach, describe, expect, spyOn, test } from 'bun:test'
+import { useStyled } from '../useStyled'
+
+// Plain JS configs bypass the config types
+const createUntyped = useStyled as (component: any, config: any) => any
+
+let logSpy: ReturnType<typeof spyOn<Console, 'log'>>
+const getWarnings = () =>
+	logSpy.mock.calls.map(([message]) => String(message)).filter(message => message.includes('⚠️'))
+
+beforeEach(() => {
+	logSpy = spyOn(console, 'log').mockImplementation(() => {})
+})
+
+afterEach(() => {
+	logSpy.mockRestore()
+})
+
+describe('config validation', () => {
+	test('reports unknown defaultVariants keys and values', () => {
+		createUntyped('div', {
+			name: 'Defaults',
+			variants: { size: { sm: {}, lg: {} } },
+			defaultVariants: { size: 'md', tone: 'info' },
+		})
+
+		const warnings = getWarnings()
+		expect(warnings).toHaveLength(2)
+		expect(warnings[0]).toContain(
+			'[Defaults] defaultVariants.size is "md", expected one of "sm", "lg".',
+		)
+		expect(warnings[1]).toContain(
+			'[Defaults] defaultVariants references unknown variant "tone".',
+		)
+	})
+
+	test('reports compound conditions referencing unknown variants or values', () => {
+		createUntyped('div', {
+			name: 'Compounds',
+			variants: { size: { sm: {}, lg: {} } },
+			compoundVariants: [
+				{ size: ['sm', 'xl'], className: 'a' },
+				{ tone: 'info', props: { className: 'b' } },
+				{ size: { not: 'lg' }, className: 'c' },
+			],
+		})
+
+		const warnings = getWarnings()
+		expect(warnings).toHaveLength(2)
+		expect(warnings[0]).toContain(
+			'[Compounds] compoundVariants[0].size references unknown value "xl"',
+		)
+		expect(warnings[1]).toContain(
+			'[Compounds] compoundVariants[1] references unknown variant "tone".',
+		)
+	})
+
+	test('reports variant names colliding with props of the element', () => {
+		createUntyped('button', {
+			name: 'Colliding',
+			variants: { type: { primary: {} }, tone: { info: {} } },
+		})
+
+		const warnings = getWarnings()
+		expect(warnings).toHaveLength(1)
+		expect(warnings[0]).toContain('[Colliding] Variant "type" collides with the "type" prop of <button>')
+	})
+
+	test('accepts valid configs', () => {
+		createUntyped('div', {
+			name: 'Valid',
+			variants: { size: { sm: {}, lg: {} }, block: { true: {} } },
+			defaultVariants: { size: 'sm', block: false },
+			compoundVariants: [{ size: 'lg', block: true, className: 'a' }],
+		})
+
+		expect(getWarnings()).toHaveLength(0)
+	})
+
+	test('accepts any value for function variants', () => {
+		const Box = createUntyped('div', {
+			name: 'FunctionBox',
+			variants: { gap: (value: number) => ({ style: { gap: value } }) },
+			defaultVariants: { gap: 2 },
+			compoundVariants: [{ gap: 4, className: 'a' }],
+		})
+		render(<Box gap={8} />)
+
+		expect(getWarnings()).toHaveLength(0)
+	})
+})
+
+describe('variant props validation', () => {
+	test('reports invalid values and breakpoints passed at render', () => {
+		const Box = createUntyped('div', {
+			name: 'RenderedBox',
+			variants: { size: { sm: {}, lg: {} } },
+		})
+		render(
+			<>
+				<Box size='xl' />
+				<Box size={{ initial: 'sm', md: 'huge', tv: 'lg' }} />
+				<Box size='lg' />
+			</>,
+		)
+
+		const warnings = getWarnings()
+		expect(warnings).toHaveLength(3)
+		expect(warnings[0]).toContain(
+			'[RenderedBox] Invalid value "xl" for variant "size", expected one of "sm", "lg".',
+		)
+		expect(warnings[1]).toContain('Invalid value "huge" for variant "size" at "md"')
+		expect(warnings[2]).toContain('Unknown breakpoint "tv" for variant "size"')
+	})
+
+	test('does not read object values of function variants as breakpoints', () => {
+		const Grid = createUntyped('div', {
+			name: 'AreaGrid',
+			base: { 'data-testid': 'grid' },
+			variants: {
+				area: (value: { cols: number }) => ({
+					style: { gridTemplateColumns: `repeat(${value.cols}, 1fr)` },
+				}),
+			},
+		})
+		const { getByTestId } = render(<Grid area={{ cols: 3 }} />)
+
+		expect(getWarnings()).toHaveLength(0)
+		expect(getByTestId('grid').style.gridTemplateColumns).toBe('repeat(3, 1fr)')
+	})
+
+	test('reports each problem once', () => {
+		const Box = createUntyped('div', {
+			name: 'RepeatedBox',
+			variants: { size: { sm: {} } },
+		})
+		render(
+			<>
+				<Box size='xl' />
+				<Box size='xl' />
+			</>,
+		)
+
+		expect(getWarnings()).toHaveLength(1)
+	})
+
+	test('is disabled in production', () => {
+		const previousEnv = process.env.NODE_ENV
+		process.env.NODE_ENV = 'production'
+		try {
+			const Box = createUntyped('div', {
+				name: 'ProductionBox',
+				variants: { size: { sm: {} } },
+				defaultVariants: { size: 'md' },
+			})
+			render(<Box size='xl' />)
+		} finally {
+			process.env.NODE_ENV = previousEnv
+		}
+
+		expect(getWarnings()).toHaveLength(0)
+	})
+})
@@ -0,0 +1,40 @@
+import React from 'react'
+import type { ColorScheme } from './types'
+import { useMediaQueries } from './responsive'
+
+/**
+ * Media query matching the dark color scheme preference of the system.
+ */
+const DARK_SCHEME_QUERY = '(prefers-color-scheme: dark)'
+
+/**
+ * Context holding a forced color scheme. `undefined` when no `ColorSchemeProvider` is mounted.
+ */
+export const ColorSchemeContext = React.createContext<ColorScheme | undefined>(
+	undefined,
+)
+
+/**
+ * Forces the color scheme used to pick the `light` / `dark` branches of styled components.
+ * On React Native, pass the value of `useColorScheme()` from `react-native`.
+ */
+export const ColorSchemeProvider = ({
+	scheme,
+	children,
+}: {
+	scheme: ColorScheme
+	children?: React.ReactNode
+}) => React.createElement(ColorSchemeContext.Provider, { value: scheme }, children)
+
+/**
+ * Returns the active color scheme: the one forced by the closest `ColorSchemeProvider`,
+ * otherwise `prefers-color-scheme` through the configured `matchMedia` / `subscribeMedia` providers,
+ * re-rendering when the system preference changes. Server and hydration renders use `light`.
+ */
+export const useColorScheme = (): ColorScheme => {
+	const forcedScheme = React.useContext(ColorSchemeContext)
+	// Only subscribed when no scheme is forced
+	const matches = useMediaQueries(forcedScheme ? [] : [DARK_SCHEME_QUERY])
+	if (forcedScheme) return forcedScheme
+	return matches(DARK_SCHEME_QUERY) ? 'dark' : 'light'
+}
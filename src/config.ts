@@ -0,0 +1,113 @@
+import type { Breakpoints, UseStyledOptions } from './types'
+
+/**
+ * Default breakpoints, mirroring Tailwind's mobile-first screens.
+ * The key order defines the order in which breakpoints are applied (smallest first).
+ */
+export const defaultBreakpoints: Breakpoints = {
+	sm: '(min-width: 640px)',
+	md: '(min-width: 768px)',
+	lg: '(min-width: 1024px)',
+	xl: '(min-width: 1280px)',
+	'2xl': '(min-width: 1536px)',
+}
+
+/**
+ * Default media query provider. Uses `window.matchMedia` when available (web)
+ * and treats every query as inactive otherwise (SSR, React Native without a custom provider).
+ */
+const defaultMatchMedia = (query: string): boolean =>
+	typeof window !== 'undefined' && typeof window.matchMedia === 'function'
+		? window.matchMedia(query).matches
+		: false
+
+/**
+ * Default platform resolver: `native` on React Native, where the OS is only known from `Platform.OS`,
+ * and `web` everywhere else (browsers, SSR).
+ */
+const defaultPlatform = (): string =>
+	typeof navigator !== 'undefined' && navigator.product === 'ReactNative'
+		? 'native'
+		: 'web'
+
+/**
+ * Default style flattener: merges nested style arrays (`style={[a, cond && b]}`) into a single object,
+ * later entries winning, and drops falsy entries. Other values (registered style ids) can't be read
+ * without React Native's `StyleSheet.flatten` and are dropped.
+ */
+const defaultFlattenStyle = (style: unknown): object | undefined => {
+	if (!style || typeof style !== 'object') return undefined
+	if (!Array.isArray(style)) return style
+	let flattened: object | undefined
+	for (const entry of style) {
+		const entryStyle = defaultFlattenStyle(entry)
+		if (entryStyle) flattened = { ...flattened, ...entryStyle }
+	}
+	return flattened
+}
+
+/**
+ * Default media query subscription, through the `change` events of `window.matchMedia` (web).
+ * Does nothing where media queries never change (SSR, React Native without a custom provider).
+ */
+const defaultSubscribeMedia = (query: string, onChange: () => void) => {
+	if (typeof window === 'undefined' || typeof window.matchMedia !== 'function') {
+		return () => {}
+	}
+	const mediaQueryList = window.matchMedia(query)
+	// Safari < 14 only supports the deprecated listener methods
+	if (typeof mediaQueryList.addEventListener !== 'function') {
+		mediaQueryList.addListener(onChange)
+		return () => mediaQueryList.removeListener(onChange)
+	}
+	mediaQueryList.addEventListener('change', onChange)
+	return () => mediaQueryList.removeEventListener('change', onChange)
+}
+
+const createDefaultOptions = (): UseStyledOptions => ({
+	breakpoints: defaultBreakpoints,
+	matchMedia: defaultMatchMedia,
+	subscribeMedia: defaultSubscribeMedia,
+	classMerge: true,
+	debug: {},
+	shorthands: {},
+	platform: defaultPlatform,
+	flattenStyle: defaultFlattenStyle,
+})
+
+let currentOptions: UseStyledOptions = createDefaultOptions()
+
+/**
+ * Sets global options shared by every component created with `useStyled`.
+ * Options are merged with the current ones, so it can be called multiple times.
+ *
+ * @param {Partial<UseStyledOptions>} options - The options to override:
+ *   - `breakpoints`: (Optional) A map of breakpoint names to media queries, ordered from smallest to largest.
+ *   - `matchMedia`: (Optional) A function telling whether a media query currently matches. Inject one on React Native.
+ *   - `subscribeMedia`: (Optional) A function subscribing to the changes of a media query, re-rendering the components
+ *     using it. Inject one along with `matchMedia` on React Native (e.g. from `Dimensions` or `Appearance` events).
+ *   - `classMerge`: (Optional) How classes are merged: `true` (tailwind-merge), `false` (plain `clsx`),
+ *     a tailwind-merge config extension, or a custom merge function.
+ *   - `debug`: (Optional) Debugs components by name (`match`) and sets where render traces go (`sink`).
+ *   - `shorthands`: (Optional) Shorthand props accepted by every styled component, mapped to the style key(s)
+ *     they set or to a function returning classes. Type them by augmenting the `Shorthands` interface.
+ *   - `platform`: (Optional) A function returning the current platform, selecting the `platform` branches of configs.
+ *     Inject `() => Platform.OS` on React Native.
+ *   - `flattenStyle`: (Optional) Flattens style arrays and registered styles before merging. Inject `StyleSheet.flatten`
+ *     on React Native to resolve `StyleSheet.create` ids, nested arrays are flattened by default.
+ */
+export const configureUseStyled = (options: Partial<UseStyledOptions>) => {
+	currentOptions = { ...currentOptions, ...options }
+}
+
+/**
+ * Returns the current global options.
+ */
+export const getUseStyledOptions = (): UseStyledOptions => currentOptions
+
+/**
+ * Restores the default global options. Mostly useful in tests.
+ */
+export const resetUseStyledOptions = () => {
+	currentOptions = createDefaultOptions()
+}
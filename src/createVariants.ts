@@ -0,0 +1,107 @@
+import type { ComponentType } from 'react'
+import type {
+	ActiveVariants,
+	Config,
+	ConfigSchema,
+	DebugConfig,
+	MergeOptions,
+	Recipe,
+	RecipeProps,
+	ResolvedRecipeProps,
+} from './types'
+
+import {
+	resolveVariantProps,
+	resolveCompoundVariantProps,
+	mergeFinalProps,
+	compileConfig,
+} from './utils'
+
+type AnyObject = Record<string, any>
+
+/**
+ * Component type recipes are validated against: they can be used with any component,
+ * so every prop is allowed and only the config structure and variant keys are checked.
+ */
+type AnyPropsComponent = ComponentType<AnyObject>
+
+/**
+ * Checks whether a `useStyled` config is a recipe created by `createVariants`.
+ */
+export const isRecipe = (value: unknown): value is Recipe<Config> =>
+	typeof value === 'function' && 'config' in value
+
+/**
+ * Creates a framework-free variant resolver (a recipe) out of a regular `useStyled` config.
+ * The recipe resolves props exactly like a styled component does: base props, then the active variants
+ * (defaults overridden by the given props), then compound variants, then the remaining props.
+ * No React is involved, so it works in server templates and tests, and the same recipe can be
+ * passed to `useStyled` in place of a config.
+ *
+ * @example
+ * const button = createVariants({
+ *   base: { className: 'rounded' },
+ *   variants: { size: { sm: { className: 'p-2' }, lg: { className: 'p-4' } } },
+ *   defaultVariants: { size: 'sm' },
+ * })
+ * button({ size: 'lg' }) // { className: 'rounded p-4' }
+ * const Button = useStyled('button', button)
+ *
+ * @template C - The type of the configuration object.
+ * @param {C & DebugConfig & ConfigSchema<AnyPropsComponent, C>} config - Same as the `useStyled` config:
+ *   `base`, `variants`, `defaultVariants`, `compoundVariants`, and any other `useStyled` option,
+ *   which only applies once the recipe is passed to `useStyled`.
+ * @returns {Recipe<C>} A function resolving props from variant props, carrying its `config` and `variantKeys`.
+ *   It optionally takes the `theme` and `colorScheme` used to resolve tokens and color scheme branches.
+ */
+export const createVariants = <C extends Config>(
+	config: C & DebugConfig & ConfigSchema<AnyPropsComponent, C>,
+): Recipe<C> => {
+	const { variantKeys, variantKeySet } = compileConfig(config)
+
+	const recipe = (
+		props: RecipeProps<C> = {} as RecipeProps<C>,
+		options: MergeOptions = {},
+	): ResolvedRecipeProps => {
+		// Active variants start from the defaults, explicit variant props overwrite them.
+		const activeVariantProps: ActiveVariants = { ...(config.defaultVariants || {}) }
+		const passedVariantKeys = new Set<string>()
+		const directProps: AnyObject = {}
+		for (const key in props) {
+			const propValue = (props as AnyObject)[key]
+			if (variantKeySet.has(key)) {
+				if (propValue !== undefined) {
+					activeVariantProps[key] = propValue
+					passedVariantKeys.add(key)
+				}
+			} else {
+				directProps[key] = propValue
+			}
+		}
+
+		// Merge strategies always come from the config.
+		const mergeOptions: MergeOptions = { ...options, merge: config.merge }
+
+		return mergeFinalProps<AnyPropsComponent>(
+			config.base,
+			resolveVariantProps<AnyPropsComponent, C>(
+				config.variants,
+				activeVariantProps,
+				mergeOptions,
+				passedVariantKeys,
+			),
+			resolveCompoundVariantProps<AnyPropsComponent, C>(
+				config.compoundVariants,
+				activeVariantProps,
+				mergeOptions,
+			),
+			directProps,
+			mergeOptions,
+		)
+	}
+
+	return Object.assign(recipe, {
+		config,
+		variantKeys,
+	}) as unknown as Recipe<C>
+}
@@ -0,0 +1,159 @@
+/**
+ * Style properties whose numeric values are written without a unit (mirrors React DOM).
+ */
+const unitlessProperties = new Set([
+	'animationIterationCount',
+	'aspectRatio',
+	'borderImageOutset',
+	'borderImageSlice',
+	'borderImageWidth',
+	'boxFlex',
+	'boxFlexGroup',
+	'boxOrdinalGroup',
+	'columnCount',
+	'columns',
+	'flex',
+	'flexGrow',
+	'flexPositive',
+	'flexShrink',
+	'flexNegative',
+	'flexOrder',
+	'gridArea',
+	'gridRow',
+	'gridRowEnd',
+	'gridRowSpan',
+	'gridRowStart',
+	'gridColumn',
+	'gridColumnEnd',
+	'gridColumnSpan',
+	'gridColumnStart',
+	'fontWeight',
+	'lineClamp',
+	'lineHeight',
+	'opacity',
+	'order',
+	'orphans',
+	'scale',
+	'tabSize',
+	'widows',
+	'zIndex',
+	'zoom',
+	'fillOpacity',
+	'floodOpacity',
+	'stopOpacity',
+	'strokeDasharray',
+	'strokeDashoffset',
+	'strokeMiterlimit',
+	'strokeOpacity',
+	'strokeWidth',
+])
+
+/**
+ * Prefix of every generated atomic class.
+ */
+export const ATOMIC_CLASS_PREFIX = 'us-'
+
+/**
+ * A single atomic CSS rule: one class setting one declaration.
+ */
+export type AtomicRule = {
+	className: string
+	declaration: string
+}
+
+/**
+ * Small, stable string hash (FNV-1a), encoded in base 36.
+ */
+export const hashString = (value: string): string => {
+	let hash = 0x811c9dc5
+	for (let index = 0; index < value.length; index++) {
+		hash ^= value.charCodeAt(index)
+		hash = Math.imul(hash, 0x01000193)
+	}
+	return (hash >>> 0).toString(36)
+}
+
+/**
+ * Converts a style property name to its CSS form (`backgroundColor` -> `background-color`,
+ * `WebkitTransition` -> `-webkit-transition`, `msGridRow` -> `-ms-grid-row`).
+ * Custom properties (`--gap`) are kept as is.
+ */
+export const toCssProperty = (property: string): string => {
+	if (property.startsWith('--')) return property
+	return property
+		.replace(/^ms(?=[A-Z])/, 'Ms')
+		.replace(/[A-Z]/g, letter => `-${letter.toLowerCase()}`)
+}
+
+/**
+ * Converts a style value to its CSS form, adding `px` to numbers of properties that need a unit.
+ */
+export const toCssValue = (property: string, value: string | number): string =>
+	typeof value === 'number' &&
+	value !== 0 &&
+	!unitlessProperties.has(property) &&
+	!property.startsWith('--')
+		? `${value}px`
+		: String(value).trim()
+
+/**
+ * Characters and sequences that could end a declaration or its rule, open a block or a comment,
+ * or close a `<style>` tag.
+ */
+const UNSAFE_CSS_VALUE = /[{};<\\]|\/\*|\*\//
+
+/**
+ * Checks whether a style value can be written into a shared stylesheet rule: it must not contain
+ * `{`, `}`, `;`, `<`, `\`, comment delimiters, or unbalanced quotes or parentheses, any of which could
+ * break out of its declaration and style the rest of the page. Unsafe values must stay inline.
+ */
+export const isSafeCssValue = (value: string | number): boolean => {
+	if (typeof value === 'number') return Number.isFinite(value)
+	if (UNSAFE_CSS_VALUE.test(value)) return false
+
+	let quote: string | undefined
+	let depth = 0
+	for (const character of value) {
+		if (quote) {
+			if (character === quote) quote = undefined
+		} else if (character === '"' || character === "'") {
+			quote = character
+		} else if (character === '(') {
+			depth++
+		} else if (character === ')' && --depth < 0) {
+			return false
+		}
+	}
+	return !quote && depth === 0
+}
+
+/**
+ * Returns the atomic rule of a single style declaration.
+ * The class name only depends on the declaration, so equal declarations always share a class.
+ */
+export const toAtomicRule = (
+	property: string,
+	value: string | number,
+): AtomicRule => {
+	const declaration = `${toCssProperty(property)}:${toCssValue(property, value)}`
+	return {
+		className: `${ATOMIC_CLASS_PREFIX}${hashString(declaration)}`,
+		declaration,
+	}
+}
+
+/**
+ * Escapes a class name for use in a CSS selector (`md:us-1a` -> `md\:us-1a`, `2xl:us-1a` -> `\32 xl\:us-1a`).
+ */
+export const escapeClassName = (className: string): string =>
+	className
+		.replace(/[^a-zA-Z0-9_-]/g, character => `\\${character}`)
+		.replace(/^[0-9]/, digit => `\\3${digit} `)
+
+/**
+ * Serializes an atomic rule, optionally under another class name (e.g. a breakpoint-prefixed one).
+ */
+export const serializeRule = (
+	rule: AtomicRule,
+	className: string = rule.className,
+): string => `.${escapeClassName(className)}{${rule.declaration}}`
@@ -0,0 +1,647 @@
+import ts from 'typescript'
+import { defaultBreakpoints } from './config'
+import type { Breakpoints } from './types'
+import {
+	type AtomicRule,
+	isSafeCssValue,
+	serializeRule,
+	toAtomicRule,
+} from './css'
+
+/**
+ * Options of the static style extraction.
+ */
+export type ExtractStylesOptions = {
+	/**
+	 * Breakpoints used by responsive variant values, ordered from smallest to largest.
+	 * Must match the ones passed to `configureUseStyled`. Defaults to the runtime defaults.
+	 */
+	breakpoints?: Record<string, string>
+	/**
+	 * Names of the functions whose configs are extracted. Defaults to `['useStyled']`.
+	 */
+	functionNames?: ReadonlyArray<string>
+}
+
+/**
+ * Result of a successful extraction: the rewritten module and its generated stylesheet.
+ */
+export type ExtractStylesResult = {
+	code: string
+	css: string
+}
+
+type TextEdit = {
+	start: number
+	end: number
+	text: string
+}
+
+type StyleValue = string | number
+
+/**
+ * A single declaration of a `style` object literal. `value` is undefined when it is not a static literal.
+ */
+type StyleDeclaration = {
+	node: ts.ObjectLiteralElementLike
+	property: string
+	value: StyleValue | undefined
+}
+
+/**
+ * A `style` object found in the props of a config (`base` or a variant value).
+ * `group` identifies the props that can be active at the same time as other groups:
+ * values of the same variant are mutually exclusive, everything else stacks.
+ */
+type StyleSource = {
+	group: string
+	responsive: boolean
+	styleProperty: ts.ObjectLiteralElementLike
+	classNameProperty: ts.ObjectLiteralElementLike | undefined
+	declarations: StyleDeclaration[]
+}
+
+/**
+ * Style sources of a config, plus the properties that must stay inline because they are also
+ * set where extraction would change the runtime precedence (color scheme and platform branches, compound variants)
+ * or because one of their values is dynamic.
+ */
+type ConfigStyles = {
+	sources: StyleSource[]
+	inlineProperties: Set<string>
+}
+
+const defaultFunctionNames = ['useStyled']
+const colorSchemeKeys = ['light', 'dark']
+const platformKey = 'platform'
+
+/**
+ * Strips wrappers that don't change the value of an expression (`(x)`, `x as const`, `x satisfies T`).
+ */
+const unwrapExpression = (expression: ts.Expression): ts.Expression => {
+	let current = expression
+	while (
+		ts.isParenthesizedExpression(current) ||
+		ts.isAsExpression(current) ||
+		ts.isSatisfiesExpression(current) ||
+		ts.isTypeAssertionExpression(current)
+	) {
+		current = current.expression
+	}
+	return current
+}
+
+/**
+ * Returns the static name of an object literal property, or undefined for spreads,
+ * computed keys and methods.
+ */
+const getPropertyName = (
+	element: ts.ObjectLiteralElementLike,
+): string | undefined => {
+	if (ts.isShorthandPropertyAssignment(element)) return element.name.text
+	if (!ts.isPropertyAssignment(element)) return undefined
+	const { name } = element
+	if (
+		ts.isIdentifier(name) ||
+		ts.isStringLiteral(name) ||
+		ts.isNumericLiteral(name)
+	) {
+		return name.text
+	}
+	return undefined
+}
+
+/**
+ * Returns the value assigned to an object literal property, or undefined for shorthands (`{ gap }`).
+ */
+const getInitializer = (
+	element: ts.ObjectLiteralElementLike,
+): ts.Expression | undefined =>
+	ts.isPropertyAssignment(element) ? element.initializer : undefined
+
+/**
+ * Returns the value of a string or number literal, or undefined for any other expression.
+ */
+const getLiteralValue = (
+	expression: ts.Expression | undefined,
+): StyleValue | undefined => {
+	if (!expression) return undefined
+	const node = unwrapExpression(expression)
+	if (ts.isStringLiteral(node) || ts.isNoSubstitutionTemplateLiteral(node)) {
+		return node.text
+	}
+	if (ts.isNumericLiteral(node)) return Number(node.text)
+	if (
+		ts.isPrefixUnaryExpression(node) &&
+		node.operator === ts.SyntaxKind.MinusToken &&
+		ts.isNumericLiteral(node.operand)
+	) {
+		return -Number(node.operand.text)
+	}
+	return undefined
+}
+
+/**
+ * Reads an object literal as a map of property names to assignments.
+ * Returns undefined when the expression is not an object literal or when any of its keys is not static.
+ */
+const getStaticProperties = (
+	expression: ts.Expression | undefined,
+): Map<string, ts.ObjectLiteralElementLike> | undefined => {
+	if (!expression) return undefined
+	const node = unwrapExpression(expression)
+	if (!ts.isObjectLiteralExpression(node)) return undefined
+
+	const properties = new Map<string, ts.ObjectLiteralElementLike>()
+	for (const element of node.properties) {
+		const name = getPropertyName(element)
+		if (name === undefined) return undefined
+		properties.set(name, element)
+	}
+	return properties
+}
+
+/**
+ * Returns the property names of the `style` object of a props object literal.
+ * Returns undefined when the style can't be read statically.
+ */
+const getStylePropertyNames = (
+	props: Map<string, ts.ObjectLiteralElementLike>,
+): string[] | undefined => {
+	const styleProperty = props.get('style')
+	if (!styleProperty) return []
+	const style = getStaticProperties(getInitializer(styleProperty))
+	return style ? [...style.keys()] : undefined
+}
+
+/**
+ * Returns the props of the branches merged over a props object at runtime: its color scheme branches
+ * and every branch of its `platform` object. Returns undefined when a branch can't be read statically.
+ */
+const getBranchProps = (
+	props: Map<string, ts.ObjectLiteralElementLike>,
+): Array<Map<string, ts.ObjectLiteralElementLike>> | undefined => {
+	const branches = colorSchemeKeys.map(schemeKey => props.get(schemeKey))
+	const platformProperty = props.get(platformKey)
+	if (platformProperty) {
+		const platforms = getStaticProperties(getInitializer(platformProperty))
+		if (!platforms) return undefined
+		branches.push(...platforms.values())
+	}
+
+	const branchProps: Array<Map<string, ts.ObjectLiteralElementLike>> = []
+	for (const branch of branches) {
+		if (!branch) continue
+		const properties = getStaticProperties(getInitializer(branch))
+		if (!properties) return undefined
+		branchProps.push(properties)
+	}
+	return branchProps
+}
+
+/**
+ * Collects the `style` objects of a config literal.
+ * Returns undefined when the config has a shape that can't be evaluated statically,
+ * in which case it is left untouched and fully resolved at runtime.
+ * With `inlineVariants`, the styles of variants stay inline, like those of compound variants.
+ */
+const collectConfigStyles = (
+	config: ts.ObjectLiteralExpression,
+	inlineVariants: boolean,
+): ConfigStyles | undefined => {
+	const configProperties = getStaticProperties(config)
+	if (!configProperties) return undefined
+
+	const sources: StyleSource[] = []
+	const inlineProperties = new Set<string>()
+
+	/**
+	 * Keeps inline every style property set by a props object (and its color scheme and platform branches).
+	 */
+	const addInlineProps = (
+		props: Map<string, ts.ObjectLiteralElementLike>,
+	): boolean => {
+		const styleNames = getStylePropertyNames(props)
+		if (!styleNames) return false
+		for (const property of styleNames) inlineProperties.add(property)
+		const branches = getBranchProps(props)
+		if (!branches) return false
+		for (const branchProps of branches) {
+			if (!addInlineProps(branchProps)) return false
+		}
+		return true
+	}
+
+	const addProps = (
+		expression: ts.Expression | undefined,
+		group: string,
+		responsive: boolean,
+	): boolean => {
+		const props = getStaticProperties(expression)
+		if (!props) return false
+
+		// Color scheme and platform branches are merged over these props at runtime, keep what they set inline
+		const branches = getBranchProps(props)
+		if (!branches) return false
+		for (const branchProps of branches) {
+			if (!addInlineProps(branchProps)) return false
+		}
+
+		const styleProperty = props.get('style')
+		if (!styleProperty) return true
+		const styleInitializer = getInitializer(styleProperty)
+		const styleNode = styleInitializer && unwrapExpression(styleInitializer)
+		if (!styleNode || !ts.isObjectLiteralExpression(styleNode)) return false
+
+		const declarations: StyleDeclaration[] = []
+		for (const element of styleNode.properties) {
+			const property = getPropertyName(element)
+			if (property === undefined) return false
+			const value = getLiteralValue(getInitializer(element))
+			// Theme tokens are resolved at render time, unsafe values can't go in the stylesheet
+			if (
+				value === undefined ||
+				String(value).startsWith('$') ||
+				!isSafeCssValue(value)
+			) {
+				inlineProperties.add(property)
+			}
+			declarations.push({ node: element, property, value })
+		}
+		sources.push({
+			group,
+			responsive,
+			styleProperty,
+			classNameProperty: props.get('className'),
+			declarations,
+		})
+		return true
+	}
+
+	const base = configProperties.get('base')
+	if (base && !addProps(getInitializer(base), 'base', false)) return undefined
+
+	const variants = configProperties.get('variants')
+	if (variants) {
+		const variantEntries = getStaticProperties(getInitializer(variants))
+		if (!variantEntries) return undefined
+		for (const [variantKey, variant] of variantEntries) {
+			const values = getStaticProperties(getInitializer(variant))
+			if (!values) return undefined
+			for (const value of values.values()) {
+				if (inlineVariants) {
+					const props = getStaticProperties(getInitializer(value))
+					if (!props || !addInlineProps(props)) return undefined
+				} else if (!addProps(getInitializer(value), `variant:${variantKey}`, true)) {
+					return undefined
+				}
+			}
+		}
+	}
+
+	// Compound variants only apply for some combinations, their styles stay inline
+	const compoundVariants = configProperties.get('compoundVariants')
+	if (compoundVariants) {
+		const compoundInitializer = getInitializer(compoundVariants)
+		const compoundList =
+			compoundInitializer && unwrapExpression(compoundInitializer)
+		if (!compoundList || !ts.isArrayLiteralExpression(compoundList)) {
+			return undefined
+		}
+		for (const compoundItem of compoundList.elements) {
+			const compound = getStaticProperties(compoundItem as ts.Expression)
+			// The entry itself may hold a `style` shorthand
+			if (!compound || !addInlineProps(compound)) return undefined
+			const compoundProps = compound.get('props')
+			if (!compoundProps) continue
+			const props = getStaticProperties(getInitializer(compoundProps))
+			if (!props || !addInlineProps(props)) return undefined
+		}
+	}
+
+	return { sources, inlineProperties }
+}
+
+/**
+ * Returns the range removing a property together with its separating comma.
+ */
+const getRemovalRange = (
+	code: string,
+	node: ts.Node,
+): Pick<TextEdit, 'start' | 'end'> => {
+	let start = node.getStart()
+	while (/\s/.test(code.charAt(start - 1))) start--
+	let cursor = node.end
+	while (/\s/.test(code.charAt(cursor))) cursor++
+	if (code.charAt(cursor) === ',') return { start, end: cursor + 1 }
+	// Last property without a trailing comma: remove the comma before it instead
+	if (code.charAt(start - 1) === ',') start--
+	return { start, end: node.end }
+}
+
+/**
+ * Extracts the static declarations of every `style` object of a config into atomic classes
+ * and returns the edits rewriting the config to use them through `className`.
+ * A declaration is only extracted when moving it to a stylesheet can't change which value wins
+ * within the config: its property must be static and set by a single group of the config.
+ * Configs merged at runtime by extending components are excluded by `extractStyles`.
+ */
+const extractConfigStyles = (
+	code: string,
+	configStyles: ConfigStyles,
+	rules: Map<string, AtomicRule>,
+	responsiveRules: Map<string, AtomicRule>,
+): TextEdit[] => {
+	const { sources, inlineProperties } = configStyles
+
+	const propertyGroups = new Map<string, Set<string>>()
+	for (const source of sources) {
+		for (const { property } of source.declarations) {
+			const groups = propertyGroups.get(property) || new Set<string>()
+			groups.add(source.group)
+			propertyGroups.set(property, groups)
+		}
+	}
+
+	const edits: TextEdit[] = []
+	for (const source of sources) {
+		const { styleProperty, classNameProperty } = source
+		const classNameInitializer = classNameProperty
+			? getInitializer(classNameProperty)
+			: undefined
+		const existingClassName = classNameProperty
+			? getLiteralValue(classNameInitializer)
+			: ''
+		// A dynamic `className` can't be rewritten
+		if (typeof existingClassName !== 'string') continue
+
+		const classes: string[] = []
+		const keptDeclarations: string[] = []
+		for (const { node, property, value } of source.declarations) {
+			const extractable =
+				value !== undefined &&
+				!inlineProperties.has(property) &&
+				propertyGroups.get(property)?.size === 1
+			if (!extractable) {
+				keptDeclarations.push(node.getText())
+				continue
+			}
+			const rule = toAtomicRule(property, value)
+			rules.set(rule.className, rule)
+			if (source.responsive) responsiveRules.set(rule.className, rule)
+			classes.push(rule.className)
+		}
+		if (!classes.length) continue
+
+		// Written as a JSON string, so quotes and newlines of the original `className` stay escaped
+		const className = [existingClassName, ...classes].filter(Boolean).join(' ')
+		const keptStyle = keptDeclarations.length
+			? `style: { ${keptDeclarations.join(', ')} }`
+			: undefined
+
+		if (classNameInitializer) {
+			edits.push({
+				start: classNameInitializer.getStart(),
+				end: classNameInitializer.end,
+				text: JSON.stringify(className),
+			})
+			edits.push(
+				keptStyle
+					? {
+							start: styleProperty.getStart(),
+							end: styleProperty.end,
+							text: keptStyle,
+						}
+					: { ...getRemovalRange(code, styleProperty), text: '' },
+			)
+		} else {
+			edits.push({
+				start: styleProperty.getStart(),
+				end: styleProperty.end,
+				text: [`className: ${JSON.stringify(className)}`, keptStyle]
+					.filter(Boolean)
+					.join(', '),
+			})
+		}
+	}
+	return edits
+}
+
+/**
+ * Serializes the extracted rules. Rules of variant props are also emitted for every breakpoint
+ * (`md:us-1a`), as used by responsive variant values. Breakpoint selectors are repeated to raise
+ * their specificity, so larger breakpoints win regardless of the order stylesheets are loaded in.
+ */
+const serializeStylesheet = (
+	rules: Map<string, AtomicRule>,
+	responsiveRules: Map<string, AtomicRule>,
+	breakpoints: Record<string, string> | Breakpoints,
+): string => {
+	const lines = [...rules.values()].map(rule => serializeRule(rule))
+	if (responsiveRules.size) {
+		Object.entries(breakpoints).forEach(([breakpoint, query], index) => {
+			lines.push(`@media ${query}{`)
+			for (const rule of responsiveRules.values()) {
+				const className = `${breakpoint}:${rule.className}`
+				const serialized = serializeRule(rule, className)
+				const selector = serialized.slice(0, serialized.indexOf('{'))
+				lines.push(`\t${selector.repeat(index + 1)}${serialized}`)
+			}
+			lines.push('}')
+		})
+	}
+	return `${lines.join('\n')}\n`
+}
+
+/**
+ * Collects the identifiers of the components extended in a module: passed as the component of a
+ * `useStyled` call, or as a slot of a `useStyledSlots` call. Extending merges configs at runtime,
+ * where the extracted classes of the parent would no longer lose to the styles of the child.
+ */
+const collectExtendedComponents = (
+	sourceFile: ts.SourceFile,
+	functionNames: ReadonlyArray<string>,
+): Set<string> => {
+	const extended = new Set<string>()
+	const addIdentifier = (expression: ts.Expression | undefined) => {
+		const node = expression && unwrapExpression(expression)
+		if (node && ts.isIdentifier(node)) extended.add(node.text)
+	}
+
+	const visit = (node: ts.Node) => {
+		if (ts.isCallExpression(node) && ts.isIdentifier(node.expression)) {
+			const [component] = node.arguments
+			if (functionNames.includes(node.expression.text)) {
+				addIdentifier(component)
+			} else if (node.expression.text === 'useStyledSlots') {
+				const slots = component && unwrapExpression(component)
+				if (slots && ts.isObjectLiteralExpression(slots)) {
+					for (const slot of slots.properties) {
+						if (ts.isShorthandPropertyAssignment(slot)) extended.add(slot.name.text)
+						else if (ts.isPropertyAssignment(slot)) addIdentifier(slot.initializer)
+					}
+				}
+			}
+		}
+		ts.forEachChild(node, visit)
+	}
+	visit(sourceFile)
+	return extended
+}
+
+/**
+ * Collects the names exported by a module: exported variables, `export { A, B as C }`
+ * and `export default A`.
+ */
+const collectExportedNames = (sourceFile: ts.SourceFile): Set<string> => {
+	const exported = new Set<string>()
+	for (const statement of sourceFile.statements) {
+		if (ts.isVariableStatement(statement)) {
+			const modifiers = ts.getModifiers(statement)
+			if (!modifiers?.some(modifier => modifier.kind === ts.SyntaxKind.ExportKeyword)) {
+				continue
+			}
+			for (const declaration of statement.declarationList.declarations) {
+				if (ts.isIdentifier(declaration.name)) exported.add(declaration.name.text)
+			}
+		} else if (
+			ts.isExportDeclaration(statement) &&
+			!statement.moduleSpecifier &&
+			statement.exportClause &&
+			ts.isNamedExports(statement.exportClause)
+		) {
+			for (const element of statement.exportClause.elements) {
+				exported.add((element.propertyName || element.name).text)
+			}
+		} else if (ts.isExportAssignment(statement)) {
+			const expression = unwrapExpression(statement.expression)
+			if (ts.isIdentifier(expression)) exported.add(expression.text)
+		}
+	}
+	return exported
+}
+
+/**
+ * Returns the outermost expression wrapping a call without changing its value (`(call) as T`).
+ */
+const getOuterExpression = (node: ts.Node): ts.Node => {
+	let current = node
+	while (
+		ts.isParenthesizedExpression(current.parent) ||
+		ts.isAsExpression(current.parent) ||
+		ts.isSatisfiesExpression(current.parent)
+	) {
+		current = current.parent
+	}
+	return current
+}
+
+/**
+ * Returns the name of the variable a call is assigned to (`const Button = useStyled(...)`).
+ */
+const getAssignedName = (node: ts.Node): string | undefined => {
+	const { parent } = getOuterExpression(node)
+	return ts.isVariableDeclaration(parent) && ts.isIdentifier(parent.name)
+		? parent.name.text
+		: undefined
+}
+
+const getScriptKind = (filename: string): ts.ScriptKind => {
+	if (filename.endsWith('.tsx')) return ts.ScriptKind.TSX
+	if (filename.endsWith('.jsx')) return ts.ScriptKind.JSX
+	if (/\.[cm]?js$/.test(filename)) return ts.ScriptKind.JS
+	return ts.ScriptKind.TS
+}
+
+/**
+ * Statically extracts the `style` objects of `useStyled` calls into atomic CSS classes (web builds).
+ * Only calls styling an intrinsic element (`useStyled('button', {...})`) with a literal config are
+ * considered. Their static `style` declarations are replaced by generated classes added to `className`,
+ * everything else (dynamic values, theme tokens, compound variants, color scheme branches,
+ * pseudo-state styles) is left in the config and resolved at runtime as usual.
+ * Components extended in the same module (`useStyled(Button, {...})` or a `useStyledSlots` slot) are
+ * left to the runtime too, since the merged config decides the precedence of their styles.
+ * Exported components may be extended by other modules, where an extracted variant style would lose
+ * to the inline `base` style of the extending component: only their `base` styles are extracted.
+ *
+ * @example
+ * const result = extractStyles(source, 'Button.tsx')
+ * // result.code -> useStyled('button', { base: { className: 'us-1x2y3z' } })
+ * // result.css  -> .us-1x2y3z{padding:8px}
+ *
+ * @param {string} code - The source code of the module.
+ * @param {string} filename - The module path, used to pick the parser (`.ts`, `.tsx`, `.js`, `.jsx`).
+ * @param {ExtractStylesOptions} [options] - Extraction options:
+ *   - `breakpoints`: (Optional) The breakpoints configured at runtime.
+ *   - `functionNames`: (Optional) The names of the functions to extract from.
+ * @returns {ExtractStylesResult | null} The rewritten code and its stylesheet, or null when nothing was extracted.
+ */
+export const extractStyles = (
+	code: string,
+	filename: string,
+	options: ExtractStylesOptions = {},
+): ExtractStylesResult | null => {
+	const functionNames = options.functionNames || defaultFunctionNames
+	if (!functionNames.some(name => code.includes(name))) return null
+
+	const sourceFile = ts.createSourceFile(
+		filename,
+		code,
+		ts.ScriptTarget.Latest,
+		true,
+		getScriptKind(filename),
+	)
+
+	const rules = new Map<string, AtomicRule>()
+	const responsiveRules = new Map<string, AtomicRule>()
+	const edits: TextEdit[] = []
+	const extendedComponents = collectExtendedComponents(sourceFile, functionNames)
+	const exportedNames = collectExportedNames(sourceFile)
+
+	const visit = (node: ts.Node) => {
+		if (
+			ts.isCallExpression(node) &&
+			ts.isIdentifier(node.expression) &&
+			functionNames.includes(node.expression.text)
+		) {
+			const [component, config] = node.arguments
+			const configNode = config && unwrapExpression(config)
+			const name = getAssignedName(node)
+			if (
+				component &&
+				ts.isStringLiteral(component) &&
+				configNode &&
+				ts.isObjectLiteralExpression(configNode) &&
+				!(name && extendedComponents.has(name))
+			) {
+				const exported = name
+					? exportedNames.has(name)
+					: ts.isExportAssignment(getOuterExpression(node).parent)
+				const configStyles = collectConfigStyles(configNode, exported)
+				if (configStyles) {
+					edits.push(
+						...extractConfigStyles(code, configStyles, rules, responsiveRules),
+					)
+				}
+			}
+		}
+		ts.forEachChild(node, visit)
+	}
+	visit(sourceFile)
+
+	if (!edits.length) return null
+
+	let output = code
+	for (const edit of edits.sort((a, b) => b.start - a.start)) {
+		output = output.slice(0, edit.start) + edit.text + output.slice(edit.end)
+	}
+
+	return {
+		code: output,
+		css: serializeStylesheet(
+			rules,
+			responsiveRules,
+			options.breakpoints || defaultBreakpoints,
+		),
+	}
+}
@@ -0,0 +1,121 @@
+import type { DebugSink, DebugTrace } from './types'
+import { getUseStyledOptions } from './config'
+
+type AnyObject = Record<string, any>
+
+/**
+ * Default debug sink: logs each render trace as a collapsed console group named after the component.
+ * Falls back to plain logs where `console.groupCollapsed` is not available (some React Native runtimes).
+ */
+export const consoleDebugSink: DebugSink = trace => {
+	const title = `[${trace.name}] render`
+	const canGroup =
+		typeof console.groupCollapsed === 'function' &&
+		typeof console.groupEnd === 'function'
+
+	if (canGroup) console.groupCollapsed(title)
+	else console.log(title)
+	console.log('Incoming props:', trace.incomingProps)
+	console.log('Default variants:', trace.defaultVariants)
+	console.log('Active variants:', trace.activeVariants)
+	console.log('Direct props:', trace.directProps)
+	console.log('Variant props:', trace.variantProps)
+	for (const compound of trace.compoundVariants) {
+		const conditions = compound.conditions
+			.map(
+				({ key, condition, value, matched }) =>
+					`${key}: ${JSON.stringify(value)} ${matched ? 'matches' : 'does not match'} ${JSON.stringify(condition)}`,
+			)
+			.join(', ')
+		console.log(
+			`Compound variant #${compound.index} ${compound.matched ? 'matched' : 'skipped'}:`,
+			conditions,
+		)
+	}
+	console.log('Final props:', trace.finalProps)
+	console.log('Changes:', trace.changes)
+	if (canGroup) console.groupEnd()
+}
+
+/**
+ * Creates a debug sink keeping every trace in memory, to assert on renders in tests.
+ *
+ * @example
+ * const memory = createMemorySink()
+ * configureUseStyled({ debug: { match: 'Button', sink: memory.sink } })
+ * render(<Button size='lg' />)
+ * expect(memory.traces[0].activeVariants).toEqual({ size: 'lg' })
+ *
+ * @returns The `sink` to configure, the recorded `traces`, and `clear` to forget them.
+ */
+export const createMemorySink = () => {
+	const traces: DebugTrace[] = []
+	return {
+		sink: ((trace: DebugTrace) => {
+			traces.push(trace)
+		}) as DebugSink,
+		traces,
+		clear: () => {
+			traces.length = 0
+		},
+	}
+}
+
+/**
+ * Name patterns already converted to regular expressions.
+ */
+const namePatterns = new Map<string, RegExp>()
+
+/**
+ * Converts a name pattern where `*` matches any characters into an anchored regular expression.
+ */
+const toNamePattern = (pattern: string): RegExp => {
+	let regExp = namePatterns.get(pattern)
+	if (!regExp) {
+		const source = pattern
+			.split('*')
+			.map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+			.join('.*')
+		regExp = new RegExp(`^${source}$`)
+		namePatterns.set(pattern, regExp)
+	}
+	return regExp
+}
+
+/**
+ * Tells whether renders of a component are traced: `debug: true` in its config,
+ * or a name matching the global `debug.match` option.
+ */
+export const isDebugEnabled = (name: string, debug: boolean | undefined) => {
+	if (debug) return true
+	const { match } = getUseStyledOptions().debug
+	if (match === undefined) return false
+	const pattern = typeof match === 'string' ? toNamePattern(match) : match
+	// `test` on global (`/g`) expressions starts from the previous match
+	pattern.lastIndex = 0
+	return pattern.test(name)
+}
+
+/**
+ * Lists the final props added or changed by the config, compared to the direct props of the render.
+ */
+export const getPropsChanges = (
+	directProps: AnyObject,
+	finalProps: AnyObject,
+): DebugTrace['changes'] => {
+	const changes: DebugTrace['changes'] = {}
+	for (const key in finalProps) {
+		if (finalProps[key] !== directProps[key]) {
+			changes[key] = { from: directProps[key], to: finalProps[key] }
+		}
+	}
+	return changes
+}
+
+/**
+ * Delivers a render trace to the configured sink (the console by default).
+ */
+export const emitDebugTrace = (trace: DebugTrace) => {
+	const sink = getUseStyledOptions().debug.sink || consoleDebugSink
+	sink(trace)
+}
@@ -15,17 +15,4 @@ export const logger = {
 	error: (message: string) => {
 		console.log(chalk.redBright(`❌ ${message}`))
 	},
-	debug: (name: string | undefined, description: string, obj: any) => {
-		console.log(chalk.magenta(`[${name}] - ${description}`))
-		try {
-			console.log(obj)
-		} catch (logErr: any) {
-			console.log(chalk.red(`Erro ao logar objeto: ${logErr.message}`))
-			try {
-				console.log(chalk.yellow('Keys:', Object.keys(obj).join(', ')))
-			} catch {
-				console.log(chalk.yellow('Objeto não pôde ser inspecionado'))
-			}
-		}
-	},
 }
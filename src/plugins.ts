@@ -0,0 +1,139 @@
+import { readFile } from 'node:fs/promises'
+import { type ExtractStylesOptions, extractStyles } from './extract'
+
+/**
+ * Options of the build plugins.
+ */
+export type StylesPluginOptions = ExtractStylesOptions & {
+	/**
+	 * Modules to transform. Defaults to every `.js`, `.jsx`, `.ts` and `.tsx` file outside `node_modules`.
+	 */
+	include?: RegExp
+}
+
+type Loader = 'js' | 'jsx' | 'ts' | 'tsx' | 'css'
+
+/**
+ * The subset of the esbuild / Bun plugin builder used by the plugin.
+ */
+type PluginBuild = {
+	onResolve(
+		options: { filter: RegExp },
+		callback: (args: { path: string }) => { path: string; namespace: string },
+	): void
+	onLoad(
+		options: { filter: RegExp; namespace?: string },
+		callback: (args: {
+			path: string
+		}) =>
+			| { contents: string; loader: Loader }
+			| Promise<{ contents: string; loader: Loader }>,
+	): void
+}
+
+const defaultInclude = /\.[cm]?[jt]sx?$/
+const STYLESHEET_NAMESPACE = 'use-styled-css'
+const VIRTUAL_PREFIX = 'virtual:use-styled:'
+
+const shouldTransform = (path: string, include: RegExp) =>
+	include.test(path) && !path.includes('/node_modules/')
+
+const getLoader = (path: string): Loader => {
+	const extension = path.slice(path.lastIndexOf('.') + 1)
+	if (extension === 'tsx' || extension === 'jsx') return extension
+	if (extension === 'ts' || extension === 'mts' || extension === 'cts') {
+		return 'ts'
+	}
+	return 'js'
+}
+
+/**
+ * Build plugin extracting static `useStyled` styles into CSS, for `Bun.build` and esbuild.
+ * Every transformed module imports its own generated stylesheet, bundled through the CSS loader.
+ *
+ * @example
+ * await Bun.build({
+ *   entrypoints: ['./src/index.tsx'],
+ *   outdir: './dist',
+ *   plugins: [useStyledPlugin()],
+ * })
+ *
+ * @param {StylesPluginOptions} [options] - The extraction options, plus `include` to filter the transformed modules.
+ */
+export const useStyledPlugin = (options: StylesPluginOptions = {}) => {
+	const include = options.include || defaultInclude
+	const stylesheets = new Map<string, string>()
+
+	return {
+		name: 'use-styled',
+		setup(build: PluginBuild) {
+			build.onResolve(
+				{ filter: new RegExp(`^${STYLESHEET_NAMESPACE}:`) },
+				args => ({
+					path: args.path.slice(STYLESHEET_NAMESPACE.length + 1),
+					namespace: STYLESHEET_NAMESPACE,
+				}),
+			)
+			build.onLoad(
+				{ filter: /.*/, namespace: STYLESHEET_NAMESPACE },
+				args => ({ contents: stylesheets.get(args.path) || '', loader: 'css' }),
+			)
+			build.onLoad({ filter: include }, async args => {
+				const contents = await readFile(args.path, 'utf8')
+				const loader = getLoader(args.path)
+				if (!shouldTransform(args.path, include)) return { contents, loader }
+
+				const result = extractStyles(contents, args.path, options)
+				if (!result) return { contents, loader }
+
+				const stylesheet = `${args.path}.css`
+				stylesheets.set(stylesheet, result.css)
+				return {
+					contents: `${result.code}\nimport '${STYLESHEET_NAMESPACE}:${stylesheet}'\n`,
+					loader,
+				}
+			})
+		},
+	}
+}
+
+/**
+ * Vite plugin extracting static `useStyled` styles into CSS.
+ * Every transformed module imports its own generated stylesheet as a virtual `.css` module.
+ *
+ * @example
+ * // vite.config.ts
+ * export default defineConfig({ plugins: [useStyledVitePlugin(), react()] })
+ *
+ * @param {StylesPluginOptions} [options] - The extraction options, plus `include` to filter the transformed modules.
+ */
+export const useStyledVitePlugin = (options: StylesPluginOptions = {}) => {
+	const include = options.include || defaultInclude
+	const stylesheets = new Map<string, string>()
+
+	return {
+		name: 'use-styled',
+		enforce: 'pre' as const,
+		resolveId(id: string) {
+			return id.startsWith(VIRTUAL_PREFIX) ? id : undefined
+		},
+		load(id: string) {
+			if (!id.startsWith(VIRTUAL_PREFIX)) return undefined
+			return stylesheets.get(id.slice(VIRTUAL_PREFIX.length)) || ''
+		},
+		transform(code: string, id: string) {
+			const [path = id] = id.split('?')
+			if (!shouldTransform(path, include)) return undefined
+
+			const result = extractStyles(code, path, options)
+			if (!result) return undefined
+
+			const stylesheet = `${path}.css`
+			stylesheets.set(stylesheet, result.css)
+			return {
+				code: `${result.code}\nimport '${VIRTUAL_PREFIX}${stylesheet}'\n`,
+				map: null,
+			}
+		},
+	}
+}
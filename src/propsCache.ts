@@ -0,0 +1,70 @@
+import type { ActiveVariants, ColorScheme, Theme, UseStyledOptions } from './types'
+import { getUseStyledOptions } from './config'
+
+/**
+ * Maximum number of variant combinations kept per component. Variant values come from props,
+ * so invalid values could otherwise grow the cache without bound.
+ */
+const MAX_CACHE_ENTRIES = 500
+
+/**
+ * Caches the props a styled component resolves from its config (`base`, variants and compound variants),
+ * keyed on the active variant tuple, which of its values were passed as props, and the color scheme.
+ */
+export type PropsCache = {
+	/**
+	 * Returns the props resolved for the active variants, calling `resolve` on a cache miss.
+	 * Responsive variant values depend on the matching media queries and are never cached,
+	 * neither are other non-primitive values (taken by function variants), which have no stable key.
+	 * Passed variants are applied after defaulted ones, so they are part of the key.
+	 */
+	get: <P extends object>(
+		activeVariants: ActiveVariants,
+		passedVariants: ReadonlySet<string>,
+		options: { theme?: Theme; colorScheme?: ColorScheme },
+		resolve: () => P,
+	) => P
+}
+
+/**
+ * Creates the resolved props cache of a styled component.
+ * Entries are dropped whenever the theme or the global options (class merging, breakpoints) change,
+ * since the resolved props depend on them.
+ *
+ * @param {string[]} variantKeys - The variant keys of the component, in config order.
+ * @returns {PropsCache} An empty cache.
+ */
+export const createPropsCache = (variantKeys: string[]): PropsCache => {
+	const entries = new Map<string, object>()
+	let cachedTheme: Theme | undefined
+	let cachedOptions: UseStyledOptions | undefined
+
+	return {
+		get: (activeVariants, passedVariants, options, resolve) => {
+			let key = options.colorScheme || ''
+			for (const variantKey of variantKeys) {
+				const value = activeVariants[variantKey]
+				if (typeof value === 'object' && value !== null) return resolve()
+				if (typeof value === 'function') return resolve()
+				// `|` separates values, `u` marks undefined so it doesn't collide with the string "undefined",
+				// `!` marks values passed as props
+				key += value === undefined ? '|u' : `|${typeof value}:${value}`
+				if (passedVariants.has(variantKey)) key += '!'
+			}
+
+			const globalOptions = getUseStyledOptions()
+			if (options.theme !== cachedTheme || globalOptions !== cachedOptions) {
+				entries.clear()
+				cachedTheme = options.theme
+				cachedOptions = globalOptions
+			}
+
+			const cached = entries.get(key)
+			if (cached) return cached as ReturnType<typeof resolve>
+			if (entries.size >= MAX_CACHE_ENTRIES) entries.clear()
+			const resolved = resolve()
+			entries.set(key, resolved)
+			return resolved
+		},
+	}
+}
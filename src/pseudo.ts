@@ -0,0 +1,98 @@
+import React from 'react'
+import { mergeStyles } from './utils'
+import { getUseStyledOptions } from './config'
+
+type AnyObject = Record<string, any>
+type Handler = (event: any) => void
+
+/**
+ * Interaction states tracked for pseudo-state styles.
+ */
+type PseudoState = {
+	hovered: boolean
+	pressed: boolean
+	focused: boolean
+}
+
+/**
+ * Event handlers toggling each interaction state, per platform.
+ * Web uses mouse/focus events, React Native uses the `Pressable` callbacks.
+ */
+const pseudoHandlers = {
+	web: {
+		hovered: ['onMouseEnter', 'onMouseLeave'],
+		pressed: ['onMouseDown', 'onMouseUp'],
+		focused: ['onFocus', 'onBlur'],
+	},
+	native: {
+		hovered: ['onHoverIn', 'onHoverOut'],
+		pressed: ['onPressIn', 'onPressOut'],
+		focused: ['onFocus', 'onBlur'],
+	},
+} as const
+
+/**
+ * Whether the configured platform resolver reports a native platform (anything but `web`).
+ */
+const isNativePlatform = () => getUseStyledOptions().platform() !== 'web'
+
+/**
+ * Composes a user-supplied handler with an internal one: the user handler runs first, then ours.
+ */
+const composeHandlers =
+	(userHandler: Handler | undefined, internalHandler: Handler): Handler =>
+	event => {
+		userHandler?.(event)
+		internalHandler(event)
+	}
+
+/**
+ * Applies the pseudo-state styles (`hoverStyle`, `pressStyle`, `focusStyle`, `disabledStyle`) of the final props.
+ * Tracks the interaction state through the platform's event handlers (composed with the ones already in `props`)
+ * and merges the styles of the active states over `style`, in that order of precedence.
+ * Props without pseudo-state styles are returned untouched.
+ */
+export const usePseudoStyles = (props: AnyObject): AnyObject => {
+	const [state, setState] = React.useState<PseudoState>({
+		hovered: false,
+		pressed: false,
+		focused: false,
+	})
+
+	const { hoverStyle, pressStyle, focusStyle, disabledStyle, ...rest } = props
+	if (!hoverStyle && !pressStyle && !focusStyle && !disabledStyle) return props
+
+	const handlers = pseudoHandlers[isNativePlatform() ? 'native' : 'web']
+	const trackedStates: Array<[keyof PseudoState, AnyObject | undefined]> = [
+		['hovered', hoverStyle],
+		['pressed', pressStyle],
+		['focused', focusStyle],
+	]
+	for (const [stateKey, stateStyle] of trackedStates) {
+		if (!stateStyle) continue
+		const [onKey, offKey] = handlers[stateKey]
+		rest[onKey] = composeHandlers(rest[onKey], () =>
+			setState(current => ({ ...current, [stateKey]: true })),
+		)
+		rest[offKey] = composeHandlers(rest[offKey], () =>
+			setState(current => ({ ...current, [stateKey]: false })),
+		)
+	}
+	// Leaving the element also ends a press on web
+	if (pressStyle && !isNativePlatform()) {
+		rest.onMouseLeave = composeHandlers(rest.onMouseLeave, () =>
+			setState(current => ({ ...current, pressed: false })),
+		)
+	}
+
+	const disabled = Boolean(rest.disabled || rest['aria-disabled'])
+	const style = mergeStyles(
+		rest.style,
+		state.hovered && !disabled ? hoverStyle : undefined,
+		state.focused ? focusStyle : undefined,
+		state.pressed && !disabled ? pressStyle : undefined,
+		disabled ? disabledStyle : undefined,
+	)
+	if (style) rest.style = style
+	return rest
+}
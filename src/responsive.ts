@@ -0,0 +1,142 @@
+import React from 'react'
+import clsx, { type ClassValue } from 'clsx'
+import type { ActiveVariants, ResponsiveValue, VariantValue } from './types'
+import { getUseStyledOptions } from './config'
+
+/**
+ * Key used for the value applied when no breakpoint matches.
+ */
+const INITIAL = 'initial'
+
+/**
+ * Checks whether a variant value is a breakpoint object (e.g. `{ initial: 'sm', md: 'lg' }`):
+ * a non-empty plain object whose keys are all `initial` or configured breakpoints.
+ * Other objects (e.g. `{ cols: 3 }`) are plain values, passed as is to function variants.
+ */
+export const isResponsiveValue = (
+	value: unknown,
+): value is ResponsiveValue<VariantValue> => {
+	if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+		return false
+	}
+	const keys = Object.keys(value)
+	if (!keys.length) return false
+	const { breakpoints } = getUseStyledOptions()
+	return keys.every(
+		key =>
+			key === INITIAL || Object.prototype.hasOwnProperty.call(breakpoints, key),
+	)
+}
+
+/**
+ * Returns the breakpoint keys of a responsive value in application order:
+ * `initial` first, then the configured breakpoints from smallest to largest.
+ */
+export const getResponsiveKeys = (
+	value: ResponsiveValue<VariantValue>,
+): string[] => {
+	const { breakpoints } = getUseStyledOptions()
+	return [INITIAL, ...Object.keys(breakpoints)].filter(
+		key => value[key as keyof typeof value] !== undefined,
+	)
+}
+
+/**
+ * Picks the value of the largest breakpoint that currently matches,
+ * falling back to `initial` when none does.
+ *
+ * @param value - The responsive value.
+ * @param matchMedia - Tells whether a media query matches. Defaults to the configured `matchMedia`.
+ */
+export const pickResponsiveValue = (
+	value: ResponsiveValue<VariantValue>,
+	matchMedia: (query: string) => boolean = getUseStyledOptions().matchMedia,
+): VariantValue | undefined => {
+	const { breakpoints } = getUseStyledOptions()
+	let picked = value.initial
+	for (const breakpoint in breakpoints) {
+		const breakpointValue = value[breakpoint as keyof typeof value]
+		if (
+			breakpointValue !== undefined &&
+			matchMedia(breakpoints[breakpoint as keyof typeof breakpoints])
+		) {
+			picked = breakpointValue
+		}
+	}
+	return picked
+}
+
+/**
+ * Returns the media queries of the breakpoints listed by the responsive values among the active variants,
+ * which are the queries their resolution depends on.
+ */
+export const getResponsiveQueries = (activeVariants: ActiveVariants): string[] => {
+	const { breakpoints } = getUseStyledOptions()
+	const queries: string[] = []
+	for (const key in activeVariants) {
+		const value = activeVariants[key]
+		if (!isResponsiveValue(value)) continue
+		for (const breakpoint in value) {
+			const query = breakpoints[breakpoint as keyof typeof breakpoints]
+			if (query && !queries.includes(query)) queries.push(query)
+		}
+	}
+	return queries
+}
+
+/**
+ * Subscribes to media queries, re-rendering whenever one of them starts or stops matching.
+ * Media queries are read through the configured `matchMedia` and `subscribeMedia` providers.
+ * Nothing matches on the server and while hydrating, so the first client render matches the server
+ * output; the actual matches apply right after.
+ *
+ * @param queries - The media queries to subscribe to.
+ * @returns A function telling whether one of the subscribed queries matches.
+ */
+export const useMediaQueries = (
+	queries: string[],
+): ((query: string) => boolean) => {
+	// Subscriptions only change with the list of queries, not with its identity
+	const key = queries.join('\n')
+
+	const subscribe = React.useCallback(
+		(onChange: () => void) => {
+			if (!key) return () => {}
+			const { subscribeMedia } = getUseStyledOptions()
+			const unsubscribes = key.split('\n').map(query => subscribeMedia(query, onChange))
+			return () => {
+				for (const unsubscribe of unsubscribes) unsubscribe()
+			}
+		},
+		[key],
+	)
+	// One character per query: `1` when it matches, `0` otherwise
+	const getSnapshot = () => {
+		const { matchMedia } = getUseStyledOptions()
+		return queries.map(query => (matchMedia(query) ? '1' : '0')).join('')
+	}
+	const getServerSnapshot = () => '0'.repeat(queries.length)
+	const snapshot = React.useSyncExternalStore(subscribe, getSnapshot, getServerSnapshot)
+
+	return React.useMemo(() => {
+		const matched = new Set(queries.filter((_, index) => snapshot[index] === '1'))
+		return (query: string) => matched.has(query)
+	}, [key, snapshot]) // `key` stands for `queries`
+}
+
+/**
+ * Prefixes every class with the breakpoint name (`text-lg` -> `md:text-lg`).
+ * Classes for `initial` are returned untouched.
+ */
+export const prefixClassName = (
+	className: ClassValue,
+	breakpoint: string,
+): string => {
+	const classes = clsx(className)
+	if (breakpoint === INITIAL) return classes
+	return classes
+		.split(/\s+/)
+		.filter(Boolean)
+		.map(cls => `${breakpoint}:${cls}`)
+		.join(' ')
+}
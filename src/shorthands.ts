@@ -0,0 +1,54 @@
+import type { ShorthandMap } from './types'
+import { cn } from './utils'
+
+type AnyObject = Record<string, any>
+
+/**
+ * Checks whether a prop is a configured shorthand. Own keys only, so props such as `toString`
+ * never match the prototype of the shorthand map.
+ */
+export const isShorthand = (shorthands: ShorthandMap, key: string) =>
+	Object.prototype.hasOwnProperty.call(shorthands, key)
+
+/**
+ * Expands shorthand props (`p`, `mx`, `bg`...) into the `style` and `className` they stand for.
+ * Style shorthands set their style key(s) to the prop value, class shorthands add the classes
+ * returned for the value. Undefined values are skipped.
+ *
+ * @example
+ * resolveShorthandProps({ p: 8, mx: 4 }, { p: 'padding', mx: ['marginLeft', 'marginRight'] })
+ * // { style: { padding: 8, marginLeft: 4, marginRight: 4 } }
+ *
+ * @param {AnyObject} shorthandProps - The shorthand props of a render, keyed by shorthand name.
+ * @param {ShorthandMap} shorthands - The configured shorthand definitions.
+ * @returns {AnyObject} The `style` and `className` props to merge, only holding the keys that were set.
+ */
+export const resolveShorthandProps = (
+	shorthandProps: AnyObject,
+	shorthands: ShorthandMap,
+): AnyObject => {
+	const style: AnyObject = {}
+	let className: string | undefined
+	let hasStyle = false
+
+	for (const key in shorthandProps) {
+		const value = shorthandProps[key]
+		const definition = shorthands[key]
+		if (value === undefined || !definition) continue
+
+		if (typeof definition === 'string') {
+			style[definition] = value
+			hasStyle = true
+		} else if ('className' in definition) {
+			className = cn(className, definition.className(value))
+		} else {
+			for (const styleKey of definition) style[styleKey] = value
+			hasStyle = true
+		}
+	}
+
+	const resolved: AnyObject = {}
+	if (hasStyle) resolved.style = style
+	if (className) resolved.className = className
+	return resolved
+}
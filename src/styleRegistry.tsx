@@ -0,0 +1,218 @@
+import React from 'react'
+import {
+	type AtomicRule,
+	isSafeCssValue,
+	serializeRule,
+	toAtomicRule,
+} from './css'
+
+type StyleObject = Record<string, any>
+
+/**
+ * Attribute marking the `<style>` tags of a registry. Its value lists the classes defined by the tag,
+ * which is how the client knows which rules the server already rendered.
+ */
+const REGISTRY_ATTRIBUTE = 'data-use-styled'
+
+/**
+ * Collects the styles rendered by `useStyled` components as deduped atomic CSS rules.
+ * Create one per server request, and a single one on the client.
+ */
+export type StyleRegistry = {
+	/**
+	 * Records the static declarations of a resolved style object as atomic rules.
+	 * Returns their classes and the declarations that must stay inline (non-primitive values, and
+	 * values that could break out of their rule, see `isSafeCssValue`).
+	 */
+	register: (style: StyleObject) => {
+		className: string
+		style: StyleObject | undefined
+	}
+	/**
+	 * Returns the CSS of every recorded rule.
+	 */
+	getCss: () => string
+	/**
+	 * Returns a `<style>` tag with every recorded rule, to include in the server-rendered document.
+	 */
+	getStyleTag: () => string
+	/**
+	 * Inserts the rules recorded since the last call in the document (client only).
+	 * Rules already present in a server-rendered `<style>` tag are never inserted again.
+	 */
+	flush: () => void
+	/**
+	 * Forgets every recorded rule.
+	 */
+	reset: () => void
+}
+
+/**
+ * Creates a style registry, to pass to `StyleRegistryProvider`.
+ *
+ * @example
+ * // Server
+ * const registry = createStyleRegistry()
+ * const html = renderToString(
+ *   <StyleRegistryProvider registry={registry}><App /></StyleRegistryProvider>,
+ * )
+ * const document = `<head>${registry.getStyleTag()}</head><body>${html}</body>`
+ *
+ * // Client
+ * hydrateRoot(root, <StyleRegistryProvider registry={createStyleRegistry()}><App /></StyleRegistryProvider>)
+ *
+ * @returns {StyleRegistry} An empty registry.
+ */
+export const createStyleRegistry = (): StyleRegistry => {
+	const rules = new Map<string, AtomicRule>()
+	const insertedClasses = new Set<string>()
+	let pendingRules: AtomicRule[] = []
+	let styleElement: HTMLStyleElement | undefined
+
+	/**
+	 * Creates the `<style>` element of the registry, after collecting the classes of the
+	 * server-rendered tags so that hydration doesn't insert them twice.
+	 */
+	const getStyleElement = (): HTMLStyleElement => {
+		if (styleElement) return styleElement
+		for (const serverElement of document.querySelectorAll(
+			`style[${REGISTRY_ATTRIBUTE}]`,
+		)) {
+			const classes = serverElement.getAttribute(REGISTRY_ATTRIBUTE) || ''
+			for (const className of classes.split(' ')) {
+				if (className) insertedClasses.add(className)
+			}
+		}
+		styleElement = document.createElement('style')
+		styleElement.setAttribute(REGISTRY_ATTRIBUTE, '')
+		document.head.appendChild(styleElement)
+		return styleElement
+	}
+
+	const getCss = () =>
+		[...rules.values()].map(rule => serializeRule(rule)).join('')
+
+	return {
+		register: style => {
+			const classes: string[] = []
+			let inlineStyle: StyleObject | undefined
+			for (const property in style) {
+				const value = style[property]
+				if (
+					(typeof value !== 'string' && typeof value !== 'number') ||
+					!isSafeCssValue(value)
+				) {
+					inlineStyle = inlineStyle || {}
+					inlineStyle[property] = value
+					continue
+				}
+				const rule = toAtomicRule(property, value)
+				if (!rules.has(rule.className)) {
+					rules.set(rule.className, rule)
+					pendingRules.push(rule)
+				}
+				classes.push(rule.className)
+			}
+			return { className: classes.join(' '), style: inlineStyle }
+		},
+		getCss,
+		getStyleTag: () => {
+			const classes = [...rules.keys()].join(' ')
+			// Style values can't close the tag
+			const css = getCss().replace(/</g, '\\3c ')
+			return `<style ${REGISTRY_ATTRIBUTE}="${classes}">${css}</style>`
+		},
+		flush: () => {
+			if (typeof document === 'undefined' || !pendingRules.length) return
+			const element = getStyleElement()
+			const newRules = pendingRules.filter(
+				rule => !insertedClasses.has(rule.className),
+			)
+			pendingRules = []
+			if (!newRules.length) return
+
+			const newClasses = newRules.map(rule => rule.className)
+			for (const className of newClasses) insertedClasses.add(className)
+			element.setAttribute(
+				REGISTRY_ATTRIBUTE,
+				[element.getAttribute(REGISTRY_ATTRIBUTE), ...newClasses]
+					.filter(Boolean)
+					.join(' '),
+			)
+			element.appendChild(
+				document.createTextNode(newRules.map(rule => serializeRule(rule)).join('')),
+			)
+		},
+		reset: () => {
+			rules.clear()
+			pendingRules = []
+		},
+	}
+}
+
+/**
+ * Context holding the current style registry. `undefined` when no `StyleRegistryProvider` is mounted,
+ * in which case styles are rendered inline.
+ */
+export const StyleRegistryContext = React.createContext<StyleRegistry | undefined>(
+	undefined,
+)
+
+/**
+ * Renders the styles resolved from the configs of styled web elements inside it as atomic classes
+ * recorded in `registry`, so they can be serialized on the server (`registry.getStyleTag()`) and
+ * inserted once on the client. Direct `style` props, shorthands and pseudo-state styles stay inline.
+ */
+export const StyleRegistryProvider = ({
+	registry,
+	children,
+}: {
+	registry: StyleRegistry
+	children?: React.ReactNode
+}) =>
+	React.createElement(StyleRegistryContext.Provider, { value: registry }, children)
+
+/**
+ * Moves the declarations of the final `style` that come from the config (`configStyle`) to atomic classes
+ * of the current registry. Other declarations (direct `style` props, shorthands, pseudo-state styles) are
+ * often dynamic, so they stay inline: registering them would grow the registry with every new value,
+ * and they keep their inline precedence over the app's stylesheets.
+ * Only applies to intrinsic elements (`enabled`), since other components may not accept `className`.
+ * Props are returned untouched when no `StyleRegistryProvider` is mounted.
+ */
+export const useRegisteredStyles = (
+	props: StyleObject,
+	configStyle: StyleObject | undefined,
+	enabled: boolean,
+): StyleObject => {
+	const registry = React.useContext(StyleRegistryContext)
+	React.useInsertionEffect(() => {
+		registry?.flush()
+	})
+
+	if (!registry || !enabled || !props.style || !configStyle) return props
+
+	const { style, ...rest } = props
+	const configDeclarations: StyleObject = {}
+	let inlineStyle: StyleObject | undefined
+	for (const property in style) {
+		// Declarations overridden after the config resolution are not the config's anymore
+		if (property in configStyle && configStyle[property] === style[property]) {
+			configDeclarations[property] = style[property]
+		} else {
+			inlineStyle = inlineStyle || {}
+			inlineStyle[property] = style[property]
+		}
+	}
+
+	const registered = registry.register(configDeclarations)
+	if (registered.className) {
+		rest.className = [rest.className, registered.className]
+			.filter(Boolean)
+			.join(' ')
+	}
+	if (registered.style || inlineStyle) {
+		rest.style = { ...registered.style, ...inlineStyle }
+	}
+	return rest
+}
@@ -0,0 +1,25 @@
+import React from 'react'
+import type { Theme } from './types'
+
+/**
+ * Context holding the current theme. `undefined` when no `ThemeProvider` is mounted,
+ * in which case `$token` references are left untouched.
+ */
+export const ThemeContext = React.createContext<Theme | undefined>(undefined)
+
+/**
+ * Provides the theme used to resolve `$token` references (e.g. `'$colors.primary'`)
+ * in the `style` of styled components. Changing `theme` re-renders every consumer.
+ */
+export const ThemeProvider = ({
+	theme,
+	children,
+}: {
+	theme: Theme
+	children?: React.ReactNode
+}) => React.createElement(ThemeContext.Provider, { value: theme }, children)
+
+/**
+ * Returns the current theme, or `undefined` outside of a `ThemeProvider`.
+ */
+export const useTheme = () => React.useContext(ThemeContext)
@@ -1,9 +1,17 @@
 import type {
 	ElementType,
 	ComponentProps,
-	ComponentType,
+	ComponentPropsWithoutRef,
+	ComponentRef,
+	ForwardRefExoticComponent,
+	ReactElement,
 	RefAttributes,
 } from 'react'
+import type {
+	ConfigExtension,
+	DefaultClassGroupIds,
+	DefaultThemeGroupIds,
+} from 'tailwind-merge'
 export type { ComponentProps } from 'react'
 
 /**
@@ -11,35 +19,398 @@ export type { ComponentProps } from 'react'
  */
 export type Config = {
 	base?: object
-	variants?: { [key: string]: { [key: string]: object } }
-	defaultVariants?: { [key: string]: string | boolean }
+	variants?: { [key: string]: { [key: string]: object } | VariantFunction }
+	defaultVariants?: { [key: string]: unknown }
 	compoundVariants?: Array<object>
+	/** Enables the `as` prop, letting each render pick the element or component to render. */
+	polymorphic?: boolean
+	/**
+	 * Publishes the active variants to descendants through context: `true` publishes them
+	 * under the component `name`, a string publishes them under that key.
+	 */
+	provideVariants?: boolean | string
+	/** Variant keys to inherit from ancestors that publish their variants, keyed by the ancestor's name. */
+	inheritVariants?: { [parentName: string]: ReadonlyArray<string> }
+	/**
+	 * Props merged across base, variants, compound variants and direct props instead of overwritten,
+	 * with their merge strategy (e.g. `{ contentContainerStyle: 'style' }`).
+	 */
+	merge?: MergeStrategies
+	/**
+	 * Caches the props resolved from `base`, variants and compound variants for each combination
+	 * of variant values, so renders only merge their direct props. Defaults to `true`.
+	 */
+	cache?: boolean
 }
 
+/**
+ * A variant computing its props from the value it is rendered with (e.g. `gap: (value: number) => ({ ... })`)
+ * and the other active variants, instead of looking them up in a table of values.
+ */
+export type VariantFunction = (value: any, variants: ActiveVariants) => object
+
+/**
+ * The values a variant accepts: the parameter of function variants, `boolean` for `true` / `false`
+ * variants, and the keys of other variants.
+ *
+ * @template V The type of a single variant of the `variants` section.
+ */
+export type VariantValueOf<V> = V extends (value: infer P, ...args: any[]) => any
+	? P
+	: keyof V extends 'true' | 'false'
+		? boolean
+		: keyof V
+
 /**
  * Alias for ElementType representing a valid React component.
  */
 export type Component = ElementType
 
+/**
+ * A single value a variant prop can take: one of the variant's keys, or a boolean for `true`/`false` variants.
+ */
+export type VariantValue = string | boolean
+
+/**
+ * Registry of the breakpoints accepted by responsive variant values, mapped to their media queries.
+ * Augment this interface when configuring custom breakpoints through `configureUseStyled`:
+ *
+ * @example
+ * declare module 'use-styled' {
+ *   interface Breakpoints { tablet: string }
+ * }
+ */
+export interface Breakpoints {
+	sm: string
+	md: string
+	lg: string
+	xl: string
+	'2xl': string
+}
+
+/**
+ * Name of a configured breakpoint.
+ */
+export type Breakpoint = keyof Breakpoints
+
+/**
+ * A variant value keyed by breakpoint, e.g. `{ initial: 'sm', md: 'lg' }`.
+ * `initial` applies when no breakpoint matches.
+ *
+ * @template V The type of a single variant value.
+ */
+export type ResponsiveValue<V> = { initial?: V } & { [B in Breakpoint]?: V }
+
+/**
+ * The variant values active for a render, keyed by variant name.
+ * Static variants take a `VariantValue` (or a `ResponsiveValue` of them), function variants any value.
+ */
+export type ActiveVariants = Record<string, unknown>
+
+/**
+ * Registry of the design tokens available to `style` values, provided at runtime by `ThemeProvider`.
+ * Augment this interface with the shape of your theme to get token autocompletion in configs:
+ *
+ * @example
+ * declare module 'use-styled' {
+ *   interface Theme {
+ *     colors: { primary: string }
+ *     space: { 4: number }
+ *   }
+ * }
+ */
+export interface Theme {}
+
+/**
+ * Dot-separated paths to every leaf value of a theme (e.g. `colors.primary`).
+ *
+ * @template T The theme (or theme section) to walk.
+ */
+type TokenPath<T> = {
+	[K in keyof T & (string | number)]: T[K] extends object
+		? `${K}.${TokenPath<T[K]>}`
+		: `${K}`
+}[keyof T & (string | number)]
+
+/**
+ * A reference to a theme value, such as `'$colors.primary'` or `'$space.4'`.
+ */
+export type ThemeToken = `$${TokenPath<Theme>}`
+
+/**
+ * Allows every value of a style object `S` to be a `ThemeToken` as well.
+ *
+ * @template S The style type of a component.
+ */
+export type WithTokens<S> = S extends object
+	? { [K in keyof S]: S[K] | ThemeToken }
+	: S
+
+/**
+ * A shorthand prop definition: the style key it sets (`'padding'`), several style keys set to the same value
+ * (`['marginLeft', 'marginRight']`), or a function returning the classes of a value (`{ className: gap => gapClasses[gap] }`).
+ */
+export type ShorthandDefinition =
+	| string
+	| ReadonlyArray<string>
+	| { className: (value: any) => string | undefined }
+
+/**
+ * Shorthand prop definitions, keyed by prop name.
+ */
+export type ShorthandMap = { [name: string]: ShorthandDefinition }
+
+/**
+ * Registry of the shorthand props accepted by styled components, mirroring the `shorthands` option of
+ * `configureUseStyled`. Empty by default: augment it with the type of your shorthand map to type the props.
+ *
+ * @example
+ * const shorthands = { p: 'padding', mx: ['marginLeft', 'marginRight'], bg: 'backgroundColor' } as const
+ * configureUseStyled({ shorthands })
+ *
+ * type AppShorthands = typeof shorthands
+ * declare module 'use-styled' {
+ *   interface Shorthands extends AppShorthands {}
+ * }
+ */
+export interface Shorthands {}
+
+/**
+ * A color scheme. Props objects in configs can hold `light` / `dark` branches applied on top
+ * of the other props when that scheme is active.
+ */
+export type ColorScheme = 'light' | 'dark'
+
+/**
+ * A platform. Props objects in configs can hold a `platform` object of branches applied on top of
+ * the other props on that platform; the `native` branch applies on every platform but `web`.
+ */
+export type Platform = 'web' | 'native' | 'ios' | 'android'
+
+/**
+ * How the values of a prop are merged across base, variants, compound variants and direct props:
+ * - `style`: shallow merge of style objects, with `$token` references resolved (like `style`).
+ * - `class`: class merging through `cn` (like `className`).
+ * - `concat`: values are concatenated into an array, spreading values that already are arrays.
+ * - `deep`: plain objects are merged recursively, other values overwrite.
+ * - `compose`: event handlers all run, in that order, until one of them calls `event.preventDefault()`.
+ */
+export type MergeStrategy = 'style' | 'class' | 'concat' | 'deep' | 'compose'
+
+/**
+ * Merge strategies of props, keyed by prop name.
+ */
+export type MergeStrategies = { [key: string]: MergeStrategy }
+
+/**
+ * Runtime context applied while resolving and merging the props of a render.
+ */
+export type MergeOptions = {
+	/** The current theme, used to resolve `$token` references in `style` values. */
+	theme?: Theme
+	/** The active color scheme, selecting the `light` / `dark` branches of config props. */
+	colorScheme?: ColorScheme
+	/**
+	 * Tells whether a media query matches for this render, picking the values of responsive variants.
+	 * Defaults to the configured `matchMedia`; styled components pass the queries they subscribed to.
+	 */
+	matchMedia?: (query: string) => boolean
+	/** Merge strategies of props beyond `className` and the style keys, from the config `merge` option. */
+	merge?: MergeStrategies
+}
+
+/**
+ * How classes from the different prop sources are merged:
+ * - `true`: tailwind-merge, with the built-in `text-h1`..`text-h10` font sizes.
+ * - `false`: plain `clsx` concatenation, without conflict resolution.
+ * - A tailwind-merge config extension, as passed to `extendTailwindMerge` (custom class groups, prefix...).
+ * - A custom merge function, receiving the joined classes.
+ */
+export type ClassMerge =
+	| boolean
+	| ConfigExtension<DefaultClassGroupIds, DefaultThemeGroupIds>
+	| ((className: string) => string)
+
+/**
+ * How a compound variant entry was evaluated during a render.
+ */
+export type CompoundVariantMatch = {
+	/** Index of the entry in `compoundVariants`. */
+	index: number
+	/** Whether every condition matched, applying the entry's props. */
+	matched: boolean
+	/** Each condition of the entry, with the active value it was checked against. */
+	conditions: Array<{
+		key: string
+		condition: unknown
+		value: unknown
+		matched: boolean
+	}>
+}
+
+/**
+ * A structured trace of a single render of a styled component with debugging enabled.
+ */
+export type DebugTrace = {
+	/** The component name (config `name`, or the name of the base component). */
+	name: string
+	/** The props the component was rendered with. */
+	incomingProps: Record<string, any>
+	/** The `defaultVariants` applied before inherited and incoming variant props. */
+	defaultVariants: Record<string, any>
+	/** The variants the render resolved, after defaults, inherited and incoming variant props. */
+	activeVariants: Record<string, any>
+	/** The incoming props passed through to the rendered component. */
+	directProps: Record<string, any>
+	/** The props resolved from the active variants. */
+	variantProps: Record<string, any>
+	/** Every compound variant entry, whether it matched, and why. */
+	compoundVariants: CompoundVariantMatch[]
+	/** The final props, before pseudo-state styles are applied. */
+	finalProps: Record<string, any>
+	/** The final props added or changed by the config, compared to the direct props. */
+	changes: Record<string, { from: unknown; to: unknown }>
+}
+
+/**
+ * Receives the trace of every render of the styled components being debugged.
+ */
+export type DebugSink = (trace: DebugTrace) => void
+
+/**
+ * Global debugging options.
+ */
+export type DebugOptions = {
+	/**
+	 * Debugs every component whose name matches, in addition to those with `debug: true`:
+	 * a regular expression, or a name where `*` matches any characters (`'Button*'`).
+	 */
+	match?: string | RegExp
+	/** Receives the render traces. Defaults to a console sink grouping each trace. */
+	sink?: DebugSink
+}
+
+/**
+ * Global options shared by every styled component, set through `configureUseStyled`.
+ */
+export type UseStyledOptions = {
+	/** Breakpoint names mapped to media queries, ordered from smallest to largest. */
+	breakpoints: Breakpoints
+	/** Tells whether a media query currently matches. Defaults to `window.matchMedia`. */
+	matchMedia: (query: string) => boolean
+	/**
+	 * Calls `onChange` whenever a media query starts or stops matching, and returns a function
+	 * unsubscribing it. Defaults to `change` events of `window.matchMedia`.
+	 */
+	subscribeMedia: (query: string, onChange: () => void) => () => void
+	/** Merges the classes of base props, variants, compound variants and direct props. Defaults to `true`. */
+	classMerge: ClassMerge
+	/** Which components are debugged, and where their render traces go. */
+	debug: DebugOptions
+	/** Shorthand props accepted by every styled component (`p`, `mx`, `bg`...). Defaults to none. */
+	shorthands: ShorthandMap
+	/**
+	 * Tells which platform branches of configs apply (`web`, `ios`, `android`...). Defaults to `web`,
+	 * or `native` on React Native: inject `() => Platform.OS` to tell iOS from Android.
+	 * Configs are resolved for the platform when they are compiled, and again whenever the options change.
+	 */
+	platform: () => string
+	/**
+	 * Flattens a style that isn't a plain object (React Native style arrays, registered style ids) before merging.
+	 * Defaults to flattening nested arrays and dropping falsy entries: inject `StyleSheet.flatten` on React Native
+	 * to also resolve registered styles.
+	 */
+	flattenStyle: (style: unknown) => object | undefined
+}
+
+/**
+ * Props holding a style object: `style` and the pseudo-state styles applied on interaction
+ * (hover, press, focus and disabled).
+ */
+export type StyleKey =
+	| 'style'
+	| 'hoverStyle'
+	| 'pressStyle'
+	| 'focusStyle'
+	| 'disabledStyle'
+
 /**
  * Validates a properties object `P` against the valid properties of a component `T`,
  * also allowing `data-*` attributes and rejecting other invalid props.
  */
-// 1. Base type that accepts props from T or data-*
-type AllowedProps<T extends Component> = ComponentProps<T> & {
-	[key: `data-${string}`]: unknown
+
+// 1. Base type that accepts props from T or data-*, with theme tokens allowed in style values.
+//    Components with a `style` prop also accept pseudo-state styles.
+type ComponentAllowedProps<T extends Component> =
+	('style' extends keyof ComponentProps<T>
+		? Omit<ComponentProps<T>, 'style'> & {
+				[K in StyleKey]?: WithTokens<ComponentProps<T>['style']>
+			}
+		: ComponentProps<T>) & {
+		[key: `data-${string}`]: unknown
+	}
+
+// 1b. Conditional branches, holding props applied on top only when their condition matches.
+//     Platform branches may hold color scheme branches themselves.
+type ColorSchemeBranchProps<T extends Component> = {
+	[S in ColorScheme]?: ComponentAllowedProps<T>
+}
+
+type PlatformBranchProps<T extends Component> = ComponentAllowedProps<T> &
+	ColorSchemeBranchProps<T>
+
+// The index signature keeps unknown platforms from failing the check below as a whole
+// (an object of optional keys only), so `ForbidExtraProps` can point at them.
+type BranchProps<T extends Component> = ColorSchemeBranchProps<T> & {
+	platform?: { [PL in Platform]?: PlatformBranchProps<T> } & { [key: string]: unknown }
+}
+
+type AllowedProps<T extends Component> = ComponentAllowedProps<T> &
+	BranchProps<T>
+
+// 2. Type that forbids extra keys, at the top level and inside each branch
+type ForbidExtraKeys<P, A> = {
+	[K in keyof P as K extends keyof A ? never : K]: never
 }
 
-// 2. Type that forbids extra keys
-type ForbidExtraProps<T extends Component, P> = {
-	[K in keyof P as K extends keyof AllowedProps<T> ? never : K]: never
+type ForbidExtraSchemeProps<T extends Component, P> = {
+	[K in keyof P & ColorScheme]?: ForbidExtraKeys<P[K], ComponentAllowedProps<T>>
 }
 
+type ForbidExtraProps<T extends Component, P> = ForbidExtraKeys<P, AllowedProps<T>> &
+	ForbidExtraSchemeProps<T, P> & {
+		[K in keyof P & 'platform']?: ForbidExtraKeys<P[K], Record<Platform, unknown>> & {
+			[PL in keyof P[K] & Platform]?: ForbidExtraKeys<P[K][PL], PlatformBranchProps<T>> &
+				ForbidExtraSchemeProps<T, P[K][PL]>
+		}
+	}
+
 // 3. Final validation: P must be a subtype of AllowedProps AND cannot have extra keys
 export type OnlyValidProps<T extends Component, P> = P extends AllowedProps<T> // Ensures P is (at least) a subset of allowed props
 	? P & ForbidExtraProps<T, P> // Intersects with the type that forbids extras
 	: AllowedProps<T> // If P is not compatible, shows the error relative to the expected type
 
+/**
+ * Validates the `merge` section of the configuration object `M`: every key must be a prop of the component `T`,
+ * and `compose` is only allowed for function props (event handlers).
+ *
+ * @template T The type of the base component.
+ * @template M The type of the `merge` section of the configuration object.
+ */
+export type ValidatedMergeStrategies<T extends Component, M> = {
+	[K in keyof ComponentAllowedProps<T>]?: NonNullable<
+		ComponentAllowedProps<T>[K]
+	> extends (...args: any[]) => any
+		? MergeStrategy
+		: Exclude<MergeStrategy, 'compose'>
+} & {
+	[K in keyof M as string extends K
+		? never // Index signature of the `Config` constraint
+		: K extends keyof ComponentAllowedProps<T>
+			? never
+			: K]: never
+}
+
 /**
  * Recursively applies `OnlyValidProps` to each style object within the variants structure `V`.
  * Ensures that all properties defined within the variants are valid for the component `T`.
@@ -50,12 +421,14 @@ export type OnlyValidProps<T extends Component, P> = P extends AllowedProps<T> /
 export type ValidatedVariants<T extends Component, V> = V extends object
 	? {
 			[VK in keyof V]: VK extends string
-				? {
-						// Iterates over variant keys (e.g., 'test')
-						[SK in keyof V[VK]]: SK extends string // Iterates over style keys (e.g., 'a', 'b')
-							? OnlyValidProps<T, V[VK][SK]> // Validates properties within each style
-							: never
-					}
+				? V[VK] extends (...args: infer A) => infer R
+					? (...args: A) => OnlyValidProps<T, R> // Function variants validate the props they return
+					: {
+							// Iterates over variant keys (e.g., 'test')
+							[SK in keyof V[VK]]: SK extends string // Iterates over style keys (e.g., 'a', 'b')
+								? OnlyValidProps<T, V[VK][SK]> // Validates properties within each style
+								: never
+						}
 				: never
 		}
 	: V
@@ -63,18 +436,28 @@ export type ValidatedVariants<T extends Component, V> = V extends object
 /**
  * Defines the expected type for the `defaultVariants` section and improves IntelliSense.
  * For each variant key `K` in `V`, the expected value is the union of style keys (`keyof V[K]`)
- * If the style keys are 'true' | 'false', the expected type is `boolean`.
+ * If the style keys are 'true' | 'false', the expected type is `boolean`, and function variants
+ * expect the type of their parameter (see `VariantValueOf`).
  *
  * @template V The type of the `variants` section of the configuration object.
  */
 export type ValidatedDefaultVariants<V> = V extends object
 	? {
-			[K in keyof V]?: keyof V[K] extends 'true' | 'false'
-				? boolean
-				: keyof V[K]
+			[K in keyof V]?: VariantValueOf<V[K]>
 		}
 	: {}
 
+/**
+ * A single compound variant condition: a value, an array of values (matching any of them),
+ * or `{ not: ... }` matching anything but the given value(s).
+ *
+ * @template T The type of a single value of the variant.
+ */
+export type VariantCondition<T> =
+	| T
+	| ReadonlyArray<T>
+	| { not: T | ReadonlyArray<T> }
+
 /**
  * Defines the structure and expected types for the CONDITIONS of a `compoundVariants` item.
  * Based on the keys and values defined in the `variants` section (`V`).
@@ -84,12 +467,21 @@ export type ValidatedDefaultVariants<V> = V extends object
  */
 export type CompoundVariantConditions<V> = V extends object
 	? {
-			[K in keyof V]?: keyof V[K] extends 'true' | 'false'
-				? boolean
-				: keyof V[K]
+			[K in keyof V]?: VariantCondition<VariantValueOf<V[K]>>
 		}
 	: {}
 
+/**
+ * The `className` / `style` shorthands a `compoundVariants` item can set next to its conditions,
+ * typed from the component `T` (only the ones `T` accepts).
+ */
+type CompoundShorthandProps<T extends Component> = Partial<
+	Pick<
+		AllowedProps<T>,
+		Extract<keyof AllowedProps<T>, 'className' | 'style'>
+	>
+>
+
 /**
  * Validates a SINGLE item within the `compoundVariants` array.
  * PRIORITIZES IntelliSense for props, sacrificing local validation on them.
@@ -102,13 +494,20 @@ export type ValidatedCompoundVariantItem<
 	// 2. Explicitly define the type of 'props' for IntelliSense
 	//    Sacrifices automatic OnlyValidProps validation HERE.
 	(Item extends { props: infer P }
-		? { props?: Partial<ComponentProps<T>> }
+		? { props?: Partial<AllowedProps<T>> }
 		: {
 				props?: never
-			}) & {
-		// 3. Ensure there are no extra keys beyond conditions + 'props'
-		[K in keyof Item as K extends keyof V | 'props' ? never : K]?: never
-	} & Item // 4. Intersect with the original Item to validate condition values etc.
+			}) &
+	// 3. `className` / `style` shorthands, merged with `props`
+	CompoundShorthandProps<T> & {
+		// 4. Ensure there are no extra keys beyond conditions, 'props' and the shorthands
+		[K in keyof Item as K extends
+			| keyof V
+			| 'props'
+			| keyof CompoundShorthandProps<T>
+			? never
+			: K]?: never
+	} & Item // 5. Intersect with the original Item to validate condition values etc.
 
 // Validate the entire compoundVariants ARRAY (maintains ReadonlyArray)
 type ValidatedCompoundVariants<
@@ -119,11 +518,22 @@ type ValidatedCompoundVariants<
 	? ReadonlyArray<ValidatedCompoundVariantItem<T, V, Item>>
 	: CV
 
+/**
+ * Defines the expected type for `inheritVariants`: for each ancestor name, the inherited keys
+ * must be variants of the component itself.
+ *
+ * @template V The type of the `variants` section of the configuration object.
+ */
+export type ValidatedInheritVariants<V> = {
+	[parentName: string]: ReadonlyArray<keyof V & string>
+}
+
 /**
  * Defines the expected structure of the debug configuration.
  */
 export type DebugConfig = {
 	name?: string
+	/** Traces every render to the debug sink (see `DebugOptions`). */
 	debug?: boolean
 }
 
@@ -132,10 +542,18 @@ export type DebugConfig = {
  * Applies specific validations for `base`, `variants`, `defaultVariants`, and `compoundVariants`.
  * Uses conditional types to handle the optional absence of `defaultVariants` or `compoundVariants`.
  *
+ * When extending a styled component, `PV` holds the parent's variants so that `defaultVariants`
+ * and `compoundVariants` can reference them as well.
+ *
  * @template T The type of the base component.
  * @template C The literal type of the complete configuration object passed.
+ * @template PV The `variants` inherited from an extended styled component, if any.
  */
-export type ConfigSchema<T extends Component, C extends Config> = C extends {
+export type ConfigSchema<
+	T extends Component,
+	C extends Config,
+	PV = {},
+> = (C extends {
 	base?: infer B
 	variants?: infer V
 	defaultVariants?: infer DV
@@ -145,20 +563,22 @@ export type ConfigSchema<T extends Component, C extends Config> = C extends {
 			// Case 1: All exist
 			base?: OnlyValidProps<T, B>
 			variants?: ValidatedVariants<T, V>
+			inheritVariants?: ValidatedInheritVariants<V & PV>
 			defaultVariants?: DV &
-				ValidatedDefaultVariants<V> & {
-					[KDV in keyof DV as KDV extends keyof V ? never : KDV]?: never
+				ValidatedDefaultVariants<V & PV> & {
+					[KDV in keyof DV as KDV extends keyof V | keyof PV ? never : KDV]?: never
 				}
-			compoundVariants?: ValidatedCompoundVariants<T, V, CompV> // <<<--- VALIDATES compoundVariants
+			compoundVariants?: ValidatedCompoundVariants<T, V & PV, CompV> // <<<--- VALIDATES compoundVariants
 		}
 	: C extends { base?: infer B; variants?: infer V; defaultVariants?: infer DV }
 		? {
 				// Case 2: No compoundVariants
 				base?: OnlyValidProps<T, B>
 				variants?: ValidatedVariants<T, V>
+				inheritVariants?: ValidatedInheritVariants<V & PV>
 				defaultVariants?: DV &
-					ValidatedDefaultVariants<V> & {
-						[KDV in keyof DV as KDV extends keyof V ? never : KDV]?: never
+					ValidatedDefaultVariants<V & PV> & {
+						[KDV in keyof DV as KDV extends keyof V | keyof PV ? never : KDV]?: never
 					}
 			}
 		: C extends {
@@ -170,20 +590,26 @@ export type ConfigSchema<T extends Component, C extends Config> = C extends {
 					// Case 3: No defaultVariants
 					base?: OnlyValidProps<T, B>
 					variants?: ValidatedVariants<T, V>
-					compoundVariants?: ValidatedCompoundVariants<T, V, CompV>
+					inheritVariants?: ValidatedInheritVariants<V & PV>
+					compoundVariants?: ValidatedCompoundVariants<T, V & PV, CompV>
 				}
 			: C extends { base?: infer B; variants?: infer V }
 				? // Case 4: Only base and variants
 					{
 						base?: OnlyValidProps<T, B>
 						variants?: ValidatedVariants<T, V>
+						inheritVariants?: ValidatedInheritVariants<V & PV>
 					}
-				: { base?: unknown; variants?: unknown } // Generic fallback type
+				: { base?: unknown; variants?: unknown }) & // Generic fallback type
+	(C extends { merge?: infer M } ? { merge?: ValidatedMergeStrategies<T, M> } : {})
 
 /**
  * Calculates the type of the properties representing the active variants.
  * Based on the `variants` section of the configuration object `C`.
- * If a variant has keys 'true'|'false', the resulting type is `boolean`.
+ * If a variant has keys 'true'|'false', the resulting type is `boolean`, and function variants
+ * accept the type of their parameter.
+ * Every variant prop also accepts a `ResponsiveValue` keyed by breakpoint. Objects whose keys are not all
+ * `initial` or breakpoints are plain values, so function variants can take objects (`{ cols: 3 }`).
  *
  * @template C The literal type of the complete configuration object passed.
  */
@@ -192,37 +618,320 @@ export type CalculateVariantProps<C extends Config> = C extends {
 }
 	? V extends object
 		? {
-				[K in keyof V]?: keyof V[K] extends 'true' | 'false'
-					? boolean
-					: keyof V[K]
+				[K in keyof V]?:
+					| VariantValueOf<V[K]>
+					| ResponsiveValue<VariantValueOf<V[K]>>
 			}
 		: {}
 	: {}
 
+/**
+ * Props accepted by a recipe created with `createVariants`: the variant props, plus any other
+ * props (`className`, `style`...) merged over the resolved ones like direct props of a styled component.
+ *
+ * @template C The literal type of the complete configuration object passed.
+ */
+export type RecipeProps<C extends Config> = CalculateVariantProps<C> & {
+	[prop: string]: unknown
+}
+
+/**
+ * Props resolved by a recipe: `className` and `style` merged from every active source, plus any other prop.
+ */
+export type ResolvedRecipeProps = {
+	className?: string
+	style?: Record<string, any>
+	[prop: string]: unknown
+}
+
+/**
+ * A framework-free variant resolver created by `createVariants`.
+ * Call it with variant props to get the resolved props; hand it to `useStyled` to style a component with it.
+ *
+ * @template C The literal type of the complete configuration object passed.
+ */
+export type Recipe<C extends Config> = {
+	(props?: RecipeProps<C>, options?: MergeOptions): ResolvedRecipeProps
+	/** The config the recipe was created with. */
+	readonly config: C & DebugConfig
+	/** The names of the variant props of the recipe. */
+	readonly variantKeys: ReadonlyArray<keyof CalculateVariantProps<C> & string>
+}
+
+/**
+ * The instance type a `ref` on a styled component resolves to.
+ * For built-in tags this is the DOM element (e.g. `HTMLButtonElement`), for components it is
+ * whatever the component itself forwards its ref to.
+ *
+ * @template T The type of the base component.
+ */
+export type StyledRef<T extends Component> = ComponentRef<T>
+
+/**
+ * The value of style key `K` in the `style` prop of component `T`, or a theme token.
+ * Distributes over union style types, so only the style objects of the union are indexed.
+ */
+type StyleValue<T extends Component, K> =
+	| (ComponentProps<T> extends { style?: infer S }
+			? S extends object
+				? K extends keyof S
+					? S[K]
+					: never
+				: never
+			: never)
+	| ThemeToken
+
+/**
+ * The value accepted by a shorthand prop of component `T`: the value of its (first) style key,
+ * or the parameter of its class function.
+ */
+type ShorthandValue<T extends Component, D> = D extends {
+	className: (value: infer V) => any
+}
+	? V
+	: D extends string
+		? StyleValue<T, D>
+		: D extends readonly [infer K, ...any[]]
+			? StyleValue<T, K>
+			: unknown
+
+/**
+ * The shorthand props accepted by a styled component rendering `T`.
+ *
+ * @template T The type of the rendered component.
+ * @template S The shorthand definitions, `Shorthands` by default.
+ */
+export type ShorthandProps<T extends Component, S = Shorthands> = {
+	[K in keyof S]?: ShorthandValue<T, S[K]>
+}
+
 /**
  * Calculates the final props type for the styled component returned by `useStyled`.
- * Combines the original props of the base component `T` (omitting collisions with variant names)
- * with the calculated variant properties (`CalculateVariantProps`) and adds `ref`.
+ * Combines the original props of the base component `T` (omitting collisions with variant names
+ * and shorthand props) with the calculated variant properties (`CalculateVariantProps`) and the
+ * shorthand props (`ShorthandProps`, unless a variant takes the name), and adds a `ref` typed from `T`.
+ * For polymorphic configs, props and `ref` are re-derived from the `as` target `As` instead, and `as` replaces
+ * the prop of the same name of the base component; other configs keep that prop as is.
  *
  * @template T The type of the base component.
  * @template C The literal type of the complete configuration object passed.
+ * @template As The component passed through the `as` prop (defaults to `T`).
+ */
+export type FinalProps<
+	T extends Component,
+	C extends Config,
+	As extends Component = T,
+> = RefAttributes<StyledRef<As>> &
+	Omit<
+		ComponentPropsWithoutRef<As>,
+		| keyof CalculateVariantProps<C>
+		| keyof Shorthands
+		| (C extends { polymorphic: true } ? 'as' : never)
+	> &
+	Omit<ShorthandProps<As>, keyof CalculateVariantProps<C>> &
+	CalculateVariantProps<C> &
+	(C extends { polymorphic: true } ? { as?: As } : {})
+
+/**
+ * A styled component accepting an `as` prop. Its props are inferred from the `as` target on each usage.
+ *
+ * @template T The type of the base component, rendered when `as` is omitted.
+ * @template C The literal type of the complete configuration object passed.
  */
-export type FinalProps<T extends Component, C extends Config> = RefAttributes<
-	// Includes RefAttributes<T> to allow the ref prop
-	ComponentProps<T>['ref'] extends React.Ref<infer RefType> ? RefType : unknown
-> &
-	Omit<ComponentProps<T>, keyof CalculateVariantProps<C>> &
-	CalculateVariantProps<C>
+export type PolymorphicComponent<T extends Component, C extends Config> = {
+	<As extends Component = T>(
+		props: FinalProps<T, C, As>,
+	): ReactElement | null
+	displayName?: string
+}
+
+/**
+ * Phantom key carrying the base component and config types of a styled component.
+ * It only exists at the type level and is what lets `useStyled` extend styled components.
+ */
+declare const styledBrand: unique symbol
 
 /**
  * Defines the generic type for the final component returned by `useStyled`.
- * It is a `ComponentType` (from React) whose props are defined by `FinalProps`,
+ * It is a ref-forwarding component (from React) whose props are defined by `FinalProps`,
  * using the specific types `T` (base component) and `C` (configuration) provided.
+ * Polymorphic configs produce a `PolymorphicComponent` instead.
  *
  * @template T The type of the base component.
  * @template C The literal type of the complete configuration object passed.
  */
-export type StyledComponent<
-	T extends Component,
-	C extends Config,
-> = ComponentType<FinalProps<T, C>>
+export type StyledComponent<T extends Component, C extends Config> = (C extends {
+	polymorphic: true
+}
+	? PolymorphicComponent<T, C>
+	: ForwardRefExoticComponent<FinalProps<T, C>>) & {
+	readonly [styledBrand]: { component: T; config: C }
+}
+
+/**
+ * Extracts the variant props of a styled component (or slots component) or of a `createVariants` recipe,
+ * to type wrapper components. Boolean variants (`true` / `false` keys) become `boolean`, the others a union
+ * of their keys; every prop is optional and also accepts a `ResponsiveValue`.
+ *
+ * @example
+ * type ButtonVariants = VariantProps<typeof Button>
+ *
+ * @template T The type of the styled component or recipe.
+ */
+export type VariantProps<T> = T extends {
+	readonly [styledBrand]: { config: infer C extends Config }
+}
+	? CalculateVariantProps<C>
+	: T extends Recipe<infer C>
+		? CalculateVariantProps<C>
+		: never
+
+/**
+ * Resolves the component a styled component renders in the end.
+ * For a styled component this is its (already flattened) base component, otherwise `T` itself.
+ *
+ * @template T The type of the component passed to `useStyled`.
+ */
+export type BaseComponent<T extends Component> = T extends {
+	readonly [styledBrand]: { component: infer B extends Component }
+}
+	? B
+	: T
+
+/**
+ * Extracts the `variants` of a styled component's config, or `{}` for any other component.
+ *
+ * @template T The type of the component passed to `useStyled`.
+ */
+export type ParentVariants<T extends Component> = T extends {
+	readonly [styledBrand]: { config: infer PC }
+}
+	? PC extends { variants?: infer PV }
+		? unknown extends PV
+			? {}
+			: PV
+		: {}
+	: {}
+
+/**
+ * Merges two `variants` sections: keys present in both get the values of both.
+ *
+ * @template PV The parent `variants`.
+ * @template V The child `variants`.
+ */
+type MergeVariants<PV, V> = {
+	[K in keyof PV | keyof V]: (K extends keyof PV ? PV[K] : {}) &
+		(K extends keyof V ? V[K] : {})
+}
+
+/**
+ * The config a styled component ends up with: `C` itself, or `C` merged with the config of the
+ * styled component it extends, so `CalculateVariantProps` sees both sets of variants.
+ *
+ * @template T The type of the component passed to `useStyled`.
+ * @template C The literal type of the configuration object passed.
+ */
+export type ExtendedConfig<T extends Component, C extends Config> = T extends {
+	readonly [styledBrand]: unknown
+}
+	? Omit<C, 'variants'> & {
+			variants: MergeVariants<
+				ParentVariants<T>,
+				C extends { variants?: infer V } ? (unknown extends V ? {} : V) : {}
+			>
+		} & (T extends {
+			readonly [styledBrand]: { config: { polymorphic: true } }
+		}
+			? { polymorphic: true }
+			: {})
+	: C
+
+/**
+ * The parts styled by a slots recipe, keyed by slot name. `root` is the component that receives
+ * the variant props; every other slot is attached to it as a static sub-component.
+ */
+export type Slots = { root: Component } & { [slot: string]: Component }
+
+/**
+ * Defines the expected structure of a slots recipe configuration.
+ * Same as `Config`, but every props object is keyed by slot name.
+ */
+export type SlotsConfig = {
+	base?: { [slot: string]: object }
+	variants?: {
+		[key: string]: { [key: string]: { [slot: string]: object } }
+	}
+	defaultVariants?: { [key: string]: string | boolean }
+	compoundVariants?: Array<object>
+}
+
+/**
+ * Validates each slot's props object against the props of that slot's component.
+ *
+ * @template S The slots of the recipe.
+ * @template P The literal type of a props object keyed by slot name.
+ */
+type ValidatedSlotProps<S extends Slots, P> = {
+	[K in keyof P]: K extends keyof S ? OnlyValidProps<S[K], P[K]> : never
+}
+
+/**
+ * Validates the complete structure of a slots recipe configuration `C` against its slots `S`.
+ * Props are validated per slot; `defaultVariants` and compound conditions are validated
+ * against the variant keys just like in `ConfigSchema`.
+ *
+ * @template S The slots of the recipe.
+ * @template C The literal type of the complete configuration object passed.
+ */
+export type SlotsConfigSchema<S extends Slots, C extends SlotsConfig> = C extends {
+	base?: infer B
+	variants?: infer V
+	defaultVariants?: infer DV
+}
+	? {
+			base?: ValidatedSlotProps<S, B>
+			variants?: {
+				[VK in keyof V]: {
+					[SK in keyof V[VK]]: ValidatedSlotProps<S, V[VK][SK]>
+				}
+			}
+			defaultVariants?: DV &
+				ValidatedDefaultVariants<V> & {
+					[KDV in keyof DV as KDV extends keyof V ? never : KDV]?: never
+				}
+			compoundVariants?: ReadonlyArray<
+				CompoundVariantConditions<V> & {
+					props?: { [K in keyof S]?: Partial<ComponentProps<S[K]>> }
+				}
+			>
+		}
+	: never
+
+/**
+ * The config each slot component is typed with: only the recipe's variants matter for its props.
+ *
+ * @template C The literal type of the slots recipe configuration.
+ */
+type SlotVariantsConfig<C extends SlotsConfig> = C extends {
+	variants?: infer V extends Config['variants']
+}
+	? { variants: V }
+	: {}
+
+/**
+ * The component returned by `useStyledSlots`: the styled `root` slot, with every other slot
+ * attached as a capitalized static sub-component (`title` -> `Card.Title`).
+ * All of them accept the recipe's variant props.
+ *
+ * @template S The slots of the recipe.
+ * @template C The literal type of the slots recipe configuration.
+ */
+export type StyledSlotsComponent<
+	S extends Slots,
+	C extends SlotsConfig,
+> = StyledComponent<S['root'], SlotVariantsConfig<C>> & {
+	[K in Exclude<keyof S, 'root'> & string as Capitalize<K>]: StyledComponent<
+		S[K],
+		SlotVariantsConfig<C>
+	>
+}
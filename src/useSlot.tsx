@@ -30,6 +30,12 @@ interface DecoratedComponentProps {
 // eslint-disable-next-line @typescript-eslint/ban-types
 type Combined<A, B> = A & B
 
+/**
+ * Own keys of a `React.forwardRef` component that belong to React itself.
+ * They must not be copied onto a clone, otherwise the clone would render the original's `render` directly.
+ */
+const ForwardRefInternals = new Set(['$$typeof', 'render'])
+
 /**
  * A React hook that allows attaching static components (slots) as properties to a given component.
  *
@@ -40,7 +46,7 @@ type Combined<A, B> = A & B
  * it will be cloned to prevent unintended side effects on the original component. Otherwise, the original component
  * is used and modified directly.
  *
- * @template A - The type of the base component. Must be a function and extend `DecoratedComponentProps` to allow property assignment.
+ * @template A - The type of the base component. Must be a function or a ref-forwarding component (such as the ones returned by `useStyled`) and extend `DecoratedComponentProps` to allow property assignment.
  * @template B - The type of the object containing the static slot components to attach.
  * @param {A} component - The base React component (e.g., a function component or a `React.forwardRef` component) to which slots will be attached.
  * @param {B} staticProps - An object where keys are slot names and values are the slot components themselves.
@@ -48,7 +54,8 @@ type Combined<A, B> = A & B
  */
 export const useSlot = <
 	// eslint-disable-next-line @typescript-eslint/ban-types
-	A extends Function & DecoratedComponentProps, // A is now a function with DecoratedComponentProps
+	A extends (Function | React.ForwardRefExoticComponent<any>) &
+		DecoratedComponentProps, // A is a function or forwardRef component with DecoratedComponentProps
 	B extends object,
 >(
 	component: A,
@@ -70,11 +77,18 @@ export const useSlot = <
 			// Copy existing static properties from the original component to the new cloned component.
 			// This ensures that previously attached slots or other static members are preserved.
 			for (const key in component) {
-				if (Object.prototype.hasOwnProperty.call(component, key)) {
+				if (
+					Object.prototype.hasOwnProperty.call(component, key) &&
+					!ForwardRefInternals.has(key)
+				) {
 					const value = component[key]
 					// Shallow copy objects to prevent shared references for mutable properties.
+					// Exotic React components (forwardRef, memo) are objects too and must keep their identity.
 					ClonedComponent[key] =
-						value && typeof value === 'object' && value !== null
+						value &&
+						typeof value === 'object' &&
+						value !== null &&
+						!('$$typeof' in value)
 							? { ...value }
 							: value
 				}
@@ -1,5 +1,6 @@
 import React from 'react'
 import type {
+	ActiveVariants,
 	Component,
 	Config,
 	StyledComponent,
@@ -7,14 +8,43 @@ import type {
 	ConfigSchema,
 	FinalProps,
 	DebugConfig,
+	StyledRef,
+	BaseComponent,
+	ParentVariants,
+	ExtendedConfig,
+	Recipe,
 } from './types'
 
 import {
 	resolveVariantProps,
 	resolveCompoundVariantProps,
 	mergeFinalProps,
+	mergeDirectProps,
+	mergeConfigs,
+	compileConfig,
+	inspectCompoundVariants,
 } from './utils'
-import { logger } from './logger'
+import { VariantContext } from './variantContext'
+import { ThemeContext } from './theme'
+import { useColorScheme } from './colorScheme'
+import { usePseudoStyles } from './pseudo'
+import { useRegisteredStyles } from './styleRegistry'
+import { isRecipe } from './createVariants'
+import { validateConfig, validateVariantProps } from './validateConfig'
+import { createPropsCache } from './propsCache'
+import { emitDebugTrace, getPropsChanges, isDebugEnabled } from './inspector'
+import { isShorthand, resolveShorthandProps } from './shorthands'
+import { getUseStyledOptions } from './config'
+import { getResponsiveQueries, useMediaQueries } from './responsive'
+
+/**
+ * Remembers the base component and config of every component created by `useStyled`,
+ * so that passing a styled component to `useStyled` extends it instead of nesting it.
+ */
+const styledDefinitions = new WeakMap<
+	object,
+	{ component: Component; config: Config & DebugConfig }
+>()
 
 /**
  * A hook that takes a base component and a configuration object to create a new styled component.
@@ -23,23 +53,77 @@ import { logger } from './logger'
  * @template T - The type of the base React component.
  * @template C - The type of the configuration object, defining styles and variants.
  * @param {T} component - The base component to be styled (e.g., a built-in HTML tag as a string, or a React component).
- * @param {C & DebugConfig & ConfigSchema<T, C>} config - The configuration object which includes:
+ *   When it is itself a styled component, its config is extended: `base`, `variants`, `defaultVariants` and
+ *   `compoundVariants` of both configs are merged and a single component is rendered.
+ * @param {(C & DebugConfig & ConfigSchema<BaseComponent<T>, C, ParentVariants<T>>) | Recipe<C>} config - The configuration object
+ *   (or a recipe created with `createVariants`, whose config is used) which includes:
  *   - `name`: (Optional) A name for debugging purposes.
- *   - `debug`: (Optional) A boolean to enable detailed logging.
+ *   - `debug`: (Optional) Traces every render (props, variants, matched compound variants) to the debug sink.
  *   - `base`: (Optional) An object of base props to apply to the component.
+ *     Any props object may hold `light` / `dark` branches applied for the active color scheme,
+ *     `platform: { web, native, ios, android }` branches applied for the configured platform, and
+ *     `hoverStyle`, `pressStyle`, `focusStyle` or `disabledStyle` applied on interaction.
  *   - `variants`: (Optional) An object defining different style variants based on props.
  *   - `defaultVariants`: (Optional) An object specifying default variants to apply.
  *   - `compoundVariants`: (Optional) An array to define styles for combinations of variants.
- * @returns {StyledComponent<T, C>} A new React functional component that applies the defined styles and variants.
+ *   - `polymorphic`: (Optional) Enables the `as` prop to render another element or component with the same styles.
+ *   - `provideVariants`: (Optional) Publishes the active variants to descendants, under `name` or the given key.
+ *   - `inheritVariants`: (Optional) Variant keys to inherit from publishing ancestors, keyed by their name.
+ *   - `merge`: (Optional) Props merged with a strategy (`style`, `class`, `concat`, `deep` or `compose` for handlers) instead of overwritten,
+ *     like `style` and `className` are.
+ *   - `cache`: (Optional) Set to `false` to resolve `base`, variants and compound variants on every render
+ *     instead of caching them per combination of variant values.
+ * @returns {StyledComponent<BaseComponent<T>, ExtendedConfig<T, C>>} A new ref-forwarding React component that applies the defined styles and variants.
  */
 export const useStyled = <T extends Component, C extends Config>(
 	component: T,
-	config: C & DebugConfig & ConfigSchema<T, C>, // Validate the config on input
-) => {
+	config:
+		| (C & DebugConfig & ConfigSchema<BaseComponent<T>, C, ParentVariants<T>>) // Validate the config on input
+		| Recipe<C>,
+): StyledComponent<BaseComponent<T>, ExtendedConfig<T, C>> => {
+	// A recipe from `createVariants` carries the config it was created with.
+	const ownConfig: Config & DebugConfig = isRecipe(config) ? config.config : config
+
+	// Extending another styled component: flatten both configs into a single render.
+	const parent =
+		typeof component === 'string' ? undefined : styledDefinitions.get(component)
+	const baseComponent = (parent ? parent.component : component) as Component
+	const resolvedConfig: Config & DebugConfig = parent
+		? mergeConfigs(parent.config, ownConfig)
+		: ownConfig
+
+	// Name used for the displayName and in warnings.
+	const componentName =
+		resolvedConfig.name ||
+		(typeof baseComponent === 'string'
+			? baseComponent
+			: (baseComponent as any).displayName ||
+				(baseComponent as any).name ||
+				'Component')
+
+	// Catch configs that slip through the types (dynamic or plain JS configs). Stripped from production builds.
+	if (process.env.NODE_ENV !== 'production') {
+		validateConfig(resolvedConfig, baseComponent, componentName)
+	}
+
+	// Lookups of the config are prepared once, so renders don't walk it.
+	const { variantKeys, variantKeySet } = compileConfig(resolvedConfig)
+
+	// Props resolved from the config, per combination of variant values (shared by every instance).
+	const propsCache =
+		resolvedConfig.cache !== false ? createPropsCache(variantKeys) : undefined
+
 	/**
-	 * The internal functional component that receives props and applies styling logic.
+	 * The internal render function that receives props and applies styling logic.
+	 * It is wrapped with `React.forwardRef` below so that a `ref` passed to the styled
+	 * component reaches the underlying element or component.
 	 */
-	const StyledComponentInternal: React.FC<FinalProps<T, C>> = incomingProps => {
+	const StyledComponentRender = (
+		incomingProps: React.PropsWithoutRef<
+			FinalProps<BaseComponent<T>, ExtendedConfig<T, C>>
+		>,
+		forwardedRef: React.ForwardedRef<StyledRef<BaseComponent<T>>>,
+	) => {
 		// Extract configuration for easier access.
 		const {
 			name,
@@ -48,93 +132,183 @@ export const useStyled = <T extends Component, C extends Config>(
 			defaultVariants,
 			compoundVariants: configCompoundVariants,
 			base: baseProps,
-		} = config
+			polymorphic,
+			provideVariants,
+			inheritVariants,
+		} = resolvedConfig
 
-		if (debug) {
-			logger.debug(name, 'Incoming Props:', incomingProps)
-		}
+		const publishedVariants = React.useContext(VariantContext)
+		const theme = React.useContext(ThemeContext)
+		const colorScheme = useColorScheme()
 
 		// Initialize active variants with defaults specified in the config.
-		const activeVariantProps: Record<string, string | boolean | undefined> = {
+		const activeVariantProps: ActiveVariants = {
 			...(defaultVariants || {}),
 		}
-		const variantKeys = configVariants ? Object.keys(configVariants) : []
-		const directProps: Partial<ComponentProps<T>> = {}
-
-		if (debug && defaultVariants) {
-			logger.debug(
-				name,
-				'Initialized Active Variants with Defaults:',
-				activeVariantProps,
-			)
+		// Variant keys given as props, applied after the defaulted and inherited ones.
+		const passedVariantKeys = new Set<string>()
+		const directProps: Partial<ComponentProps<BaseComponent<T>>> = {}
+		const shorthandProps: Record<string, unknown> = {}
+		const { shorthands } = getUseStyledOptions()
+		let hasShorthandProps = false
+
+		// Inherited variants from publishing ancestors overwrite the defaults.
+		for (const parentName in inheritVariants) {
+			const parentVariants = publishedVariants[parentName]
+			if (!parentVariants) continue
+			for (const key of inheritVariants[parentName] || []) {
+				if (parentVariants[key] !== undefined) {
+					activeVariantProps[key] = parentVariants[key]
+				}
+			}
 		}
 
-		// Separate incoming props into variant-triggering props and direct props.
+		// Separate incoming props into variant-triggering props, shorthand props and direct props.
 		// Explicit variant props from `incomingProps` will overwrite default variants.
+		// Variants take precedence over shorthands of the same name.
+		// The `as` prop of polymorphic components picks the rendered element and is not passed down.
+		let renderedComponent = baseComponent
 		for (const key in incomingProps) {
 			const incomingKey = key as keyof typeof incomingProps
 			const propValue = incomingProps[incomingKey]
 
-			if (variantKeys.includes(key) && propValue !== undefined) {
+			if (polymorphic && key === 'as') {
+				if (propValue) renderedComponent = propValue as Component
+			} else if (variantKeySet.has(key) && propValue !== undefined) {
 				activeVariantProps[key] = propValue
+				passedVariantKeys.add(key)
+			} else if (!variantKeySet.has(key) && isShorthand(shorthands, key)) {
+				shorthandProps[key] = propValue
+				hasShorthandProps = true
 			} else {
 				directProps[incomingKey as keyof typeof directProps] = propValue as any
 			}
 		}
 
-		if (debug) {
-			logger.debug(
-				name,
-				'Final Active Variant Props (After Incoming Overwrite):',
-				activeVariantProps,
-			)
-			logger.debug(name, 'Separated - Direct Props:', directProps)
+		if (process.env.NODE_ENV !== 'production') {
+			validateVariantProps(configVariants, incomingProps, componentName)
 		}
 
-		// Resolve props from active variants and compound variants.
-		const variantPropsResult = resolveVariantProps<T, C>(
-			configVariants,
-			activeVariantProps,
-		)
-		const compoundPropsResult = resolveCompoundVariantProps<T, C>(
-			configCompoundVariants,
-			activeVariantProps,
-		)
+		// Responsive values are picked from the breakpoints subscribed to, re-rendering when they change.
+		const matchMedia = useMediaQueries(getResponsiveQueries(activeVariantProps))
+		const mergeOptions = {
+			theme,
+			colorScheme,
+			merge: resolvedConfig.merge,
+			matchMedia,
+		}
 
-		if (debug) {
-			logger.debug(name, 'Resolved Variant Props:', variantPropsResult)
-			logger.debug(
-				name,
-				'Resolved Compound Variant Props:',
-				compoundPropsResult,
-			)
+		// Forwarded refs never appear in `incomingProps`, so hand them to the direct props.
+		if (forwardedRef) {
+			directProps['ref' as keyof typeof directProps] = forwardedRef as any
 		}
 
-		// Merge all props: base, resolved variants, resolved compound variants, and direct props.
-		const finalMergedProps = mergeFinalProps<T>(
-			baseProps,
-			variantPropsResult,
-			compoundPropsResult,
+		// Resolve props from base, active variants and compound variants: identical for every render
+		// with the same variant values, so they are cached.
+		const resolveConfigProps = () =>
+			mergeFinalProps<BaseComponent<T>>(
+				baseProps,
+				resolveVariantProps<BaseComponent<T>, Config>(
+					configVariants,
+					activeVariantProps,
+					mergeOptions,
+					passedVariantKeys,
+				),
+				resolveCompoundVariantProps<BaseComponent<T>, Config>(
+					configCompoundVariants,
+					activeVariantProps,
+					mergeOptions,
+				),
+				{},
+				mergeOptions,
+			)
+		const configProps = propsCache
+			? propsCache.get(
+					activeVariantProps,
+					passedVariantKeys,
+					mergeOptions,
+					resolveConfigProps,
+				)
+			: resolveConfigProps()
+
+		// Merge shorthand props over the props resolved from the config, then the direct props over both:
+		// an explicit `style` or `className` wins over shorthands.
+		const shorthandMergedProps = hasShorthandProps
+			? mergeDirectProps<BaseComponent<T>>(
+					configProps,
+					resolveShorthandProps(shorthandProps, shorthands) as Partial<
+						ComponentProps<BaseComponent<T>>
+					>,
+					mergeOptions,
+				)
+			: configProps
+		const finalMergedProps = mergeDirectProps<BaseComponent<T>>(
+			shorthandMergedProps,
 			directProps,
+			mergeOptions,
 		)
 
-		if (debug) {
-			logger.debug(name, 'Final Merged Props:', finalMergedProps)
+		// Trace the render for components being debugged (`debug: true` or a name matching `debug.match`).
+		if (isDebugEnabled(componentName, debug)) {
+			emitDebugTrace({
+				name: componentName,
+				incomingProps,
+				defaultVariants: { ...defaultVariants },
+				activeVariants: activeVariantProps,
+				directProps,
+				variantProps: resolveVariantProps<BaseComponent<T>, Config>(
+					configVariants,
+					activeVariantProps,
+					mergeOptions,
+				),
+				compoundVariants: inspectCompoundVariants(
+					configCompoundVariants,
+					activeVariantProps,
+					mergeOptions,
+				),
+				finalProps: finalMergedProps,
+				changes: getPropsChanges(directProps, finalMergedProps),
+			})
 		}
 
+		// Apply pseudo-state styles (hover, press, focus, disabled) from the interaction state.
+		const interactiveProps = usePseudoStyles(finalMergedProps)
+
+		// Within a `StyleRegistryProvider`, web elements get the styles of their config as registered atomic classes.
+		const renderedProps = useRegisteredStyles(
+			interactiveProps,
+			(configProps as { style?: Record<string, unknown> }).style,
+			typeof renderedComponent === 'string',
+		)
+
 		// Render the original component with the final, merged props.
-		return React.createElement(component, finalMergedProps)
+		const element = React.createElement(renderedComponent, renderedProps)
+
+		// Publish the active variants to descendants under the configured key.
+		const publishKey = provideVariants === true ? name : provideVariants
+		if (!publishKey) return element
+		return React.createElement(
+			VariantContext.Provider,
+			{ value: { ...publishedVariants, [publishKey]: activeVariantProps } },
+			element,
+		)
 	}
 
+	const StyledComponentInternal = React.forwardRef<
+		StyledRef<BaseComponent<T>>,
+		FinalProps<BaseComponent<T>, ExtendedConfig<T, C>>
+	>(StyledComponentRender)
+
 	// Set a displayName for the styled component for better debugging and React DevTools inspection.
-	const componentName =
-		config.name ||
-		(typeof component === 'string'
-			? component
-			: (component as any).displayName ||
-				(component as any).name ||
-				'Component')
 	StyledComponentInternal.displayName = `Styled(${componentName})`
 
-	return StyledComponentInternal as StyledComponent<T, C>
+	styledDefinitions.set(StyledComponentInternal, {
+		component: baseComponent,
+		config: resolvedConfig,
+	})
+
+	return StyledComponentInternal as unknown as StyledComponent<
+		BaseComponent<T>,
+		ExtendedConfig<T, C>
+	>
 }
@@ -0,0 +1,126 @@
+import React from 'react'
+import type {
+	Component,
+	Config,
+	DebugConfig,
+	Slots,
+	SlotsConfig,
+	SlotsConfigSchema,
+	StyledSlotsComponent,
+} from './types'
+
+import { useStyled } from './useStyled'
+import { useSlot } from './useSlot'
+
+type AnyObject = Record<string, any>
+
+/**
+ * Counter used to give each recipe its own key in the variant context.
+ */
+let recipeCount = 0
+
+/**
+ * `useStyled` without config validation: slot configs are built at runtime and were
+ * already validated per slot by `SlotsConfigSchema`.
+ */
+const useSlotStyled = useStyled as (
+	component: Component,
+	config: Config & DebugConfig,
+) => React.ComponentType<any>
+
+/**
+ * Builds the regular `useStyled` config of a single slot out of a slots recipe config.
+ * Every variant key is kept (even without props for this slot) so that variant props
+ * are always consumed and never reach the underlying element.
+ */
+const getSlotConfig = (
+	config: SlotsConfig & DebugConfig,
+	slot: string,
+	name: string | undefined,
+): Config & DebugConfig => {
+	const variants: Record<string, Record<string, object>> = {}
+	for (const variantKey in config.variants) {
+		const values = config.variants[variantKey] || {}
+		variants[variantKey] = {}
+		for (const valueKey in values) {
+			variants[variantKey][valueKey] = values[valueKey]?.[slot] || {}
+		}
+	}
+
+	return {
+		name,
+		debug: config.debug,
+		base: config.base?.[slot],
+		variants,
+		defaultVariants: config.defaultVariants,
+		compoundVariants: config.compoundVariants?.map(compoundItem => {
+			const { props, ...conditions } = compoundItem as AnyObject
+			return { ...conditions, props: props?.[slot] }
+		}),
+	}
+}
+
+/**
+ * A hook that styles several parts of a component with a single configuration (a slots recipe).
+ * One `variants` definition produces props for every slot, and the variant values chosen on the
+ * root component flow to all of its slot components through context (`provideVariants` / `inheritVariants`).
+ *
+ * @example
+ * const Card = useStyledSlots(
+ *   { root: 'div', title: 'h2' },
+ *   {
+ *     base: { root: { className: 'p-4' }, title: { className: 'font-bold' } },
+ *     variants: {
+ *       size: {
+ *         sm: { root: { className: 'p-2' }, title: { className: 'text-sm' } },
+ *         lg: { root: { className: 'p-6' }, title: { className: 'text-lg' } },
+ *       },
+ *     },
+ *   },
+ * )
+ * // <Card size='lg'><Card.Title>Styled for lg</Card.Title></Card>
+ *
+ * @template S - The slots of the recipe, keyed by slot name. Must include `root`.
+ * @template C - The type of the configuration object.
+ * @param {S} slots - The component to render for each slot.
+ * @param {C & DebugConfig & SlotsConfigSchema<S, C>} config - The configuration object which includes:
+ *   - `name`: (Optional) A name for debugging purposes, also used to name each slot (`Card.Title`).
+ *   - `debug`: (Optional) Traces the renders of every slot to the debug sink.
+ *   - `base`: (Optional) Base props keyed by slot name.
+ *   - `variants`: (Optional) Variants whose values hold props keyed by slot name.
+ *   - `defaultVariants`: (Optional) An object specifying default variants to apply.
+ *   - `compoundVariants`: (Optional) An array of conditions whose `props` are keyed by slot name.
+ * @returns {StyledSlotsComponent<S, C>} The root component, with the other slots attached as capitalized static properties.
+ */
+export const useStyledSlots = <S extends Slots, C extends SlotsConfig>(
+	slots: S,
+	config: C & DebugConfig & SlotsConfigSchema<S, C>,
+): StyledSlotsComponent<S, C> => {
+	const variantKeys = config.variants ? Object.keys(config.variants) : []
+	// Unique per recipe, so nested recipes (even with the same name) never mix their variants.
+	const publishKey = `useStyledSlots:${++recipeCount}`
+
+	// Root slot: publishes its active variants to the other slots.
+	const Root = useSlotStyled(slots.root, {
+		...getSlotConfig(config, 'root', config.name),
+		provideVariants: publishKey,
+	})
+
+	// Other slots: inherit the root's variant values, explicit props still win.
+	const slotComponents: Record<string, React.ComponentType<any>> = {}
+	for (const slot in slots) {
+		if (slot === 'root') continue
+
+		const slotName = `${slot.charAt(0).toUpperCase()}${slot.slice(1)}`
+		slotComponents[slotName] = useSlotStyled(slots[slot] as Component, {
+			...getSlotConfig(
+				config,
+				slot,
+				config.name ? `${config.name}.${slotName}` : undefined,
+			),
+			inheritVariants: { [publishKey]: variantKeys },
+		})
+	}
+
+	return useSlot(Root, slotComponents) as unknown as StyledSlotsComponent<S, C>
+}
@@ -1,5 +1,28 @@
 // Import local types (defined in types.ts)
-import type { Component, Config, ComponentProps } from './types'
+import type {
+	ActiveVariants,
+	ClassMerge,
+	Component,
+	Config,
+	ColorScheme,
+	ComponentProps,
+	CompoundVariantMatch,
+	MergeOptions,
+	MergeStrategies,
+	MergeStrategy,
+	Theme,
+	UseStyledOptions,
+	VariantCondition,
+	VariantFunction,
+	VariantValue,
+} from './types'
+import {
+	getResponsiveKeys,
+	isResponsiveValue,
+	pickResponsiveValue,
+	prefixClassName,
+} from './responsive'
+import { getUseStyledOptions } from './config'
 
 // Imports for cn (add to your project)
 import clsx, { type ClassValue } from 'clsx'
@@ -8,23 +31,37 @@ import { extendTailwindMerge, getDefaultConfig } from 'tailwind-merge'
 // --- Helper Types ---
 type AnyObject = Record<string, any>
 // The generic type for `style` will be inferred as object or CSSProperties/RN Styles by usage.
-type StyleValue = object | undefined | null
+// React Native styles may also be (nested) arrays, registered style ids or falsy entries.
+type StyleValue = object | number | false | undefined | null
 // Defining StyleObject correctly
 type StyleObject = AnyObject
 
 // --- Specific Helper Functions ---
 
 /**
- * Merges multiple style objects (plain objects).
- * Later objects in the list overwrite earlier keys.
+ * Returns a style as a plain object: arrays (React Native `style={[a, b]}`) and registered style ids
+ * go through the configured `flattenStyle`, falsy styles are dropped.
+ */
+const toStyleObject = (style: StyleValue): StyleObject | undefined => {
+	if (!style) return undefined
+	if (typeof style === 'object' && !Array.isArray(style)) return style
+	return getUseStyledOptions().flattenStyle(style)
+}
+
+/**
+ * Merges multiple styles: plain objects, or React Native style arrays and registered styles
+ * flattened with the configured `flattenStyle`.
+ * Later styles in the list overwrite earlier keys.
  * Returns a single object or undefined if merging results in an empty object or only null/undefined entries.
- * NOTE: In React Native, if you need support for arrays/IDs,
- *       use StyleSheet.flatten BEFORE passing to this function.
  */
 export const mergeStyles = (
 	...styles: Array<StyleValue>
 ): StyleObject | undefined => {
-	const validStyles = styles.filter(Boolean) as AnyObject[]
+	const validStyles: StyleObject[] = []
+	for (const style of styles) {
+		const styleObject = toStyleObject(style)
+		if (styleObject) validStyles.push(styleObject)
+	}
 
 	if (validStyles.length === 0) return undefined
 	if (validStyles.length === 1) return validStyles[0]
@@ -35,6 +72,42 @@ export const mergeStyles = (
 	return Object.keys(merged).length > 0 ? merged : undefined
 }
 
+/**
+ * Looks up a `$path.to.token` reference in the theme.
+ * Returns `undefined` when the value is not a token or the path doesn't exist.
+ */
+const getTokenValue = (value: unknown, theme: Theme): unknown => {
+	if (typeof value !== 'string' || value.charAt(0) !== '$') return undefined
+
+	let current: any = theme
+	for (const segment of value.slice(1).split('.')) {
+		if (current === null || typeof current !== 'object') return undefined
+		current = current[segment]
+	}
+	return current
+}
+
+/**
+ * Replaces `$token` references in the values of a style object with the matching theme values.
+ * Unknown tokens are left untouched. Returns the same object when nothing was replaced.
+ */
+export const resolveStyleTokens = (
+	style: StyleObject | undefined,
+	theme: Theme | undefined,
+): StyleObject | undefined => {
+	if (!style || !theme) return style
+
+	let resolved: StyleObject | undefined
+	for (const key in style) {
+		const tokenValue = getTokenValue(style[key], theme)
+		if (tokenValue !== undefined) {
+			resolved = resolved || { ...style }
+			resolved[key] = tokenValue
+		}
+	}
+	return resolved || style
+}
+
 // --- Custom tailwind-merge configuration ---
 const customTwMerge = extendTailwindMerge(config => {
 	// Pegar a configuração padrão para estendê-la
@@ -54,107 +127,694 @@ const customTwMerge = extendTailwindMerge(config => {
 })
 
 /**
- * Merges CSS classes using clsx and tailwind-merge. Essential for Tailwind/NativeWind.
+ * The merge function built from the last `classMerge` option, rebuilt only when the option changes.
+ */
+let classMerger: { option: ClassMerge; merge: (className: string) => string } | undefined
+
+/**
+ * Returns the merge function matching the configured `classMerge` option.
+ */
+const getClassMerger = (): ((className: string) => string) => {
+	const { classMerge } = getUseStyledOptions()
+	if (classMerger?.option === classMerge) return classMerger.merge
+
+	let merge: (className: string) => string
+	if (classMerge === true) merge = customTwMerge
+	else if (classMerge === false) merge = className => className
+	else if (typeof classMerge === 'function') merge = classMerge
+	else merge = extendTailwindMerge(classMerge)
+
+	classMerger = { option: classMerge, merge }
+	return merge
+}
+
+/**
+ * Merges CSS classes using clsx and the configured class merger (tailwind-merge by default).
+ * Essential for Tailwind/NativeWind.
  */
 export function cn(...inputs: ClassValue[]): string | undefined {
-	// Usar a instância customizada
-	const result = customTwMerge(clsx(inputs))
+	const result = getClassMerger()(clsx(inputs))
 	return result.length > 0 ? result : undefined
 }
 
 /**
- * Checks compound variant conditions.
+ * Props holding style objects: `style` and the pseudo-state styles applied on interaction.
+ * They are merged across sources instead of overwritten.
+ */
+export const styleKeys = new Set([
+	'style',
+	'hoverStyle',
+	'pressStyle',
+	'focusStyle',
+	'disabledStyle',
+])
+
+/**
+ * Keys of the color scheme branches a props object can hold.
+ */
+const colorSchemeKeys = ['light', 'dark'] as const
+
+/**
+ * Key of the platform branches a props object can hold, and the branch applied on every platform but `web`.
+ */
+const PLATFORM_KEY = 'platform'
+const NATIVE_PLATFORM = 'native'
+
+/**
+ * Returns how the values of a prop are merged across sources: `className` through `cn`, styles
+ * (see `styleKeys`) through `mergeStyles`, and the keys declared in the config `merge` option with their strategy.
+ * Other props have no strategy: later values overwrite earlier ones.
+ */
+const getMergeStrategy = (
+	key: string,
+	strategies: MergeStrategies | undefined,
+): MergeStrategy | undefined => {
+	if (key === 'className') return 'class'
+	return strategies?.[key] || (styleKeys.has(key) ? 'style' : undefined)
+}
+
+const isPlainObject = (value: unknown): value is AnyObject =>
+	typeof value === 'object' &&
+	value !== null &&
+	!Array.isArray(value) &&
+	[Object.prototype, null].includes(Object.getPrototypeOf(value))
+
+/**
+ * Merges plain objects recursively. Any other value of `second` overwrites `first`.
+ */
+const deepMerge = (first: unknown, second: unknown): unknown => {
+	if (second === undefined) return first
+	if (!isPlainObject(first) || !isPlainObject(second)) return second
+
+	const merged: AnyObject = { ...first }
+	for (const key in second) {
+		merged[key] = deepMerge(first[key], second[key])
+	}
+	return merged
+}
+
+/**
+ * Concatenates two values into an array, spreading values that already are arrays.
+ */
+const concatValues = (first: unknown, second: unknown): unknown => {
+	if (first === undefined) return second
+	if (second === undefined) return first
+	return [
+		...(Array.isArray(first) ? first : [first]),
+		...(Array.isArray(second) ? second : [second]),
+	]
+}
+
+/**
+ * Whether a handler stopped the chain by calling `preventDefault()` on the event (web and React Native events).
+ */
+const isDefaultPrevented = (event: unknown): boolean => {
+	if (typeof event !== 'object' || event === null) return false
+	const target = event as AnyObject
+	if (target.defaultPrevented === true) return true
+	return typeof target.isDefaultPrevented === 'function' && target.isDefaultPrevented() === true
+}
+
+/**
+ * Chains two event handlers: `first` runs, then `second` unless `first` prevented the default of the event.
+ */
+const chainHandlers = (first: unknown, second: unknown): unknown => {
+	if (typeof first !== 'function') return second
+	if (typeof second !== 'function') return first
+	return (...args: unknown[]) => {
+		first(...args)
+		if (isDefaultPrevented(args[0])) return undefined
+		return second(...args)
+	}
+}
+
+/**
+ * Merges two values of a prop with a merge strategy.
+ */
+const mergeValues = (
+	strategy: MergeStrategy,
+	first: unknown,
+	second: unknown,
+): unknown => {
+	switch (strategy) {
+		case 'style':
+			return mergeStyles(first as StyleValue, second as StyleValue)
+		case 'class':
+			return cn(first as ClassValue, second as ClassValue)
+		case 'concat':
+			return concatValues(first, second)
+		case 'deep':
+			return deepMerge(first, second)
+		case 'compose':
+			return chainHandlers(first, second)
+	}
+}
+
+/**
+ * Merges two props objects, merging `className`, styles and keys with a merge strategy (see `getMergeStrategy`)
+ * instead of overwriting them. Other keys from `second` overwrite the ones from `first`;
+ * color scheme and platform branches are merged the same way.
+ */
+const mergePropObjects = (
+	first: AnyObject | undefined,
+	second: AnyObject | undefined,
+	strategies?: MergeStrategies,
+): AnyObject | undefined => {
+	if (!first || !second) return first || second
+
+	const merged: AnyObject = { ...first, ...second }
+	for (const key in second) {
+		const strategy = getMergeStrategy(key, strategies)
+		if (!strategy || !(key in first)) continue
+		const value = mergeValues(strategy, first[key], second[key])
+		if (value !== undefined) merged[key] = value
+	}
+	for (const scheme of colorSchemeKeys) {
+		if (first[scheme] && second[scheme]) {
+			merged[scheme] = mergePropObjects(first[scheme], second[scheme], strategies)
+		}
+	}
+	const firstPlatforms = first[PLATFORM_KEY]
+	const secondPlatforms = second[PLATFORM_KEY]
+	if (firstPlatforms && secondPlatforms) {
+		const platforms: AnyObject = { ...firstPlatforms }
+		for (const platform in secondPlatforms) {
+			platforms[platform] = mergePropObjects(
+				firstPlatforms[platform],
+				secondPlatforms[platform],
+				strategies,
+			)
+		}
+		merged[PLATFORM_KEY] = platforms
+	}
+	return merged
+}
+
+/**
+ * Applies the `light` / `dark` branch of a props object matching the active color scheme
+ * on top of its other props, and drops both branches.
+ * Returns the same object when it has no branches.
+ */
+export const resolveColorSchemeProps = (
+	props: AnyObject | undefined,
+	colorScheme: ColorScheme | undefined,
+	strategies?: MergeStrategies,
+): AnyObject | undefined => {
+	if (!props || !colorSchemeKeys.some(scheme => scheme in props)) return props
+
+	const { light, dark, ...rest } = props
+	const branch =
+		colorScheme === 'dark' ? dark : colorScheme === 'light' ? light : undefined
+	return mergePropObjects(rest, branch, strategies)
+}
+
+/**
+ * Applies the `platform` branches of a props object matching `platform` on top of its other props:
+ * `native` first on every platform but `web`, then the branch of the platform itself. Drops every branch.
+ * Returns the same object when it has no platform branches.
+ */
+export const resolvePlatformProps = (
+	props: AnyObject | undefined,
+	platform: string,
+	strategies?: MergeStrategies,
+): AnyObject | undefined => {
+	if (!props || !(PLATFORM_KEY in props)) return props
+
+	const { [PLATFORM_KEY]: branches, ...rest } = props
+	if (!branches) return rest
+	const nativeBranch =
+		platform !== 'web' && platform !== NATIVE_PLATFORM
+			? branches[NATIVE_PLATFORM]
+			: undefined
+	return mergePropObjects(
+		mergePropObjects(rest, nativeBranch, strategies),
+		branches[platform],
+		strategies,
+	)
+}
+
+/**
+ * Applies the platform branches, then the color scheme branches of a props object.
+ */
+const resolveBranchProps = (
+	props: AnyObject | undefined,
+	colorScheme: ColorScheme | undefined,
+	strategies: MergeStrategies | undefined,
+) =>
+	resolveColorSchemeProps(
+		resolvePlatformProps(props, getUseStyledOptions().platform(), strategies),
+		colorScheme,
+		strategies,
+	)
+
+// --- Precompiled Configs ---
+
+/**
+ * Color scheme a precompiled props object was resolved for, `none` when no scheme is active.
+ */
+type SchemeKey = ColorScheme | 'none'
+
+/**
+ * Props resolved ahead of time for each color scheme.
+ */
+type SchemeProps<P> = Record<SchemeKey, P>
+
+/**
+ * Props of a variant value, resolved for a color scheme and split into `className` and the other props.
+ */
+type SplitProps = { className: ClassValue; rest: AnyObject } | undefined
+
+/**
+ * Variant values of a variant: boolean variants are stored under both their `'true'` / `'false'` keys
+ * and the matching booleans, so any value is found with a single lookup.
+ * Function variants are kept as is, their props depend on the value they are called with.
+ */
+type CompiledVariant = Map<VariantValue, SchemeProps<SplitProps>> | VariantFunction
+
+/**
+ * A compound variant with a matcher per referenced variant key and its merged props.
+ */
+type CompiledCompoundVariant = {
+	conditions: Array<{
+		key: string
+		condition: VariantCondition<VariantValue>
+		matches: (value: unknown) => boolean
+	}>
+	props: SchemeProps<AnyObject | undefined>
+}
+
+/**
+ * Resolves a props object for the current platform and every color scheme.
+ */
+const compileSchemeProps = <P>(
+	props: AnyObject | undefined,
+	strategies: MergeStrategies | undefined,
+	compile: (resolved: AnyObject | undefined) => P,
+): SchemeProps<P> => ({
+	none: compile(resolveBranchProps(props, undefined, strategies)),
+	light: compile(resolveBranchProps(props, 'light', strategies)),
+	dark: compile(resolveBranchProps(props, 'dark', strategies)),
+})
+
+/**
+ * Memoizes the compilation of config sections by identity and merge strategies. The compiled output
+ * merges classes and applies platform branches, so it is rebuilt when the global options
+ * (and with them `classMerge` and `platform`) change.
+ */
+const memoizeCompiled = <S extends object, R>(
+	compile: (source: S, strategies: MergeStrategies | undefined) => R,
+) => {
+	const compiled = new WeakMap<
+		S,
+		{ options: UseStyledOptions; strategies: MergeStrategies | undefined; result: R }
+	>()
+	return (source: S, strategies?: MergeStrategies): R => {
+		const options = getUseStyledOptions()
+		const entry = compiled.get(source)
+		if (entry?.options === options && entry.strategies === strategies) {
+			return entry.result
+		}
+		const result = compile(source, strategies)
+		compiled.set(source, { options, strategies, result })
+		return result
+	}
+}
+
+/**
+ * Splits resolved variant props into `className` and the other props.
+ */
+const splitClassName = (resolved: AnyObject | undefined): SplitProps => {
+	if (!resolved) return undefined
+	const { className, ...rest } = resolved
+	return { className, rest }
+}
+
+/**
+ * Compiles `base` into its props for every color scheme.
+ */
+const compileBase = memoizeCompiled((base: AnyObject, strategies) =>
+	compileSchemeProps(base, strategies, resolved => resolved),
+)
+
+/**
+ * Compiles `variants` into maps of variant values to their split props for every color scheme.
+ */
+const compileVariants = memoizeCompiled(
+	(configVariants: NonNullable<Config['variants']>, strategies) => {
+		const variants = new Map<string, CompiledVariant>()
+		for (const variantKey in configVariants) {
+			const variantConfig = configVariants[variantKey] || {}
+			if (typeof variantConfig === 'function') {
+				variants.set(variantKey, variantConfig)
+				continue
+			}
+			const values: CompiledVariant = new Map()
+			for (const valueKey in variantConfig) {
+				const props = compileSchemeProps(
+					variantConfig[valueKey as keyof typeof variantConfig],
+					strategies,
+					splitClassName,
+				)
+				values.set(valueKey, props)
+				if (valueKey === 'true' || valueKey === 'false') {
+					values.set(valueKey === 'true', props)
+				}
+			}
+			variants.set(variantKey, values)
+		}
+		return variants
+	},
+)
+
+/**
+ * Compiles a compound variant condition (value, array of values or `{ not }`) into a matcher:
+ * arrays match any of their values, `{ not }` matches anything but its value(s).
+ */
+const compileVariantCondition = (
+	condition: VariantCondition<VariantValue>,
+): ((value: unknown) => boolean) => {
+	if (Array.isArray(condition)) {
+		const values = new Set<unknown>(condition)
+		return value => values.has(value)
+	}
+	if (
+		typeof condition === 'object' &&
+		condition !== null &&
+		'not' in condition
+	) {
+		const matches = compileVariantCondition(condition.not)
+		return value => !matches(value)
+	}
+	return value => value === condition
+}
+
+/**
+ * Compiles `compoundVariants` into their condition matchers and props for every color scheme.
+ * Entries may set `className` and `style` directly next to their conditions, as a shorthand for `props`.
+ */
+const compileCompoundVariants = memoizeCompiled(
+	(compoundVariants: ReadonlyArray<object>, strategies): CompiledCompoundVariant[] =>
+		compoundVariants.map(compoundItem => {
+			const {
+				props: itemProps,
+				className,
+				style,
+				...conditions
+			} = compoundItem as AnyObject
+			const shorthandProps: AnyObject = {}
+			if (className !== undefined) shorthandProps.className = className
+			if (style !== undefined) shorthandProps.style = style
+			return {
+				conditions: Object.keys(conditions).map(key => ({
+					key,
+					condition: conditions[key],
+					matches: compileVariantCondition(conditions[key]),
+				})),
+				props: compileSchemeProps(
+					mergePropObjects(shorthandProps, itemProps, strategies),
+					strategies,
+					resolved => resolved,
+				),
+			}
+		}),
+)
+
+/**
+ * Returns the value a compound variant condition is checked against.
+ * Responsive values match on the value of the currently active breakpoint.
+ */
+const getConditionValue = (
+	activeVariants: ActiveVariants,
+	key: string,
+	options: MergeOptions,
+) => {
+	const activeValue = activeVariants[key]
+	return isResponsiveValue(activeValue)
+		? pickResponsiveValue(activeValue, options.matchMedia)
+		: activeValue
+}
+
+/**
+ * Checks the conditions of a compiled compound variant against the active variants.
  */
 const checkCompoundVariantConditions = (
-	conditions: Record<string, string | boolean>,
-	activeVariants: Record<string, string | boolean | undefined>,
+	conditions: CompiledCompoundVariant['conditions'],
+	activeVariants: ActiveVariants,
+	options: MergeOptions,
 ): boolean => {
-	for (const key in conditions) {
-		if (conditions[key] !== activeVariants[key]) return false
+	for (const { key, matches } of conditions) {
+		if (!matches(getConditionValue(activeVariants, key, options))) return false
 	}
 	return true
 }
 
+/**
+ * Evaluates every compound variant entry against the active variants, condition by condition.
+ * Used by debug traces to tell which entries matched and why.
+ */
+export const inspectCompoundVariants = (
+	compoundVariantsConfig: Config['compoundVariants'],
+	activeVariants: ActiveVariants,
+	options: MergeOptions = {},
+): CompoundVariantMatch[] => {
+	if (!compoundVariantsConfig) return []
+	return compileCompoundVariants(compoundVariantsConfig, options.merge).map((compoundItem, index) => {
+		const conditions = compoundItem.conditions.map(({ key, condition, matches }) => {
+			const value = getConditionValue(activeVariants, key, options)
+			return { key, condition, value, matched: matches(value) }
+		})
+		return {
+			index,
+			matched: conditions.every(condition => condition.matched),
+			conditions,
+		}
+	})
+}
+
+/**
+ * The parts of a config `useStyled` looks up on every render, computed once.
+ */
+export type CompiledConfig = {
+	/** The variant keys, in config order. */
+	variantKeys: string[]
+	/** The variant keys, for constant-time checks of incoming props. */
+	variantKeySet: Set<string>
+}
+
+/**
+ * Precompiles a config when a styled component or recipe is created: `base` is resolved for every color scheme,
+ * `variants` are normalized into maps (booleans included, function variants aside), and each compound variant gets a matcher
+ * per variant key it references. Resolution functions then only perform lookups.
+ */
+export const compileConfig = (config: Config): CompiledConfig => {
+	if (config.base) compileBase(config.base, config.merge)
+	if (config.variants) compileVariants(config.variants, config.merge)
+	if (config.compoundVariants) {
+		compileCompoundVariants(config.compoundVariants, config.merge)
+	}
+
+	const variantKeys = config.variants ? Object.keys(config.variants) : []
+	return { variantKeys, variantKeySet: new Set(variantKeys) }
+}
+
 // --- Prop Resolution Functions ---
 
 /**
  * Extracts and merges props defined for active variants.
- * Optimized version merging style/className iteratively.
+ * Optimized version merging style/className (and keys with an `options.merge` strategy) iteratively,
+ * over the precompiled `variants`.
+ *
+ * Variants are applied in config order, not in the order the props were passed: when two variants
+ * set the same prop, the one declared last in `variants` wins. Variants listed in `passedVariants`
+ * (given as props) are applied after the others (defaults and inherited values), so they win over them.
+ *
+ * The `light` / `dark` branch matching `options.colorScheme` is applied to each variant's props.
+ *
+ * Function variants are called with the variant value and the active variants, and their result
+ * is resolved like the props of a static variant value.
+ *
+ * Responsive values (`{ initial: 'sm', md: 'lg' }`) emit the `className` of every listed
+ * breakpoint with its prefix (`md:text-lg`), while `style` and other props come from the
+ * value of the currently matching breakpoint.
  */
 export const resolveVariantProps = <T extends Component, C extends Config>(
 	configVariants: C['variants'],
-	activeVariants: Record<string, string | boolean | undefined>,
+	activeVariants: ActiveVariants,
+	options: MergeOptions = {},
+	passedVariants?: ReadonlySet<string>,
 ): Partial<ComponentProps<T>> => {
-	const finalProps: Partial<ComponentProps<T>> = {}
-	let currentMergedStyle: StyleValue | undefined = undefined // Changed to let
+	const finalProps: AnyObject = {}
+	const currentMergedValues: AnyObject = {} // styles and keys with a merge strategy
 	let currentMergedClassName: ClassValue | undefined = undefined // Changed to let
 
 	if (!configVariants) return {}
+	const variants = compileVariants(configVariants, options.merge)
 
-	for (const variantKey in activeVariants) {
+	// Walk variants in config order, so the result doesn't depend on the order props were passed in.
+	// The sort is stable: passed variants move after the others and keep their config order.
+	const orderedVariants = passedVariants?.size
+		? [...variants].sort(
+				([a], [b]) => Number(passedVariants.has(a)) - Number(passedVariants.has(b)),
+			)
+		: variants
+	for (const [variantKey, variantValues] of orderedVariants) {
 		const variantValue = activeVariants[variantKey]
-		if (variantValue !== undefined && configVariants[variantKey]) {
-			const propsForVariant = configVariants[variantKey]?.[String(variantValue)]
-			if (propsForVariant) {
-				const { style, className, ...restProps } = propsForVariant as any
-				// Merge other props (last write wins)
-				Object.assign(finalProps, restProps)
-				// Merge style iteratively
-				if (style) {
-					currentMergedStyle = mergeStyles(currentMergedStyle, style)
+		if (variantValue === undefined) continue
+
+		let propsForVariant: SplitProps
+		if (isResponsiveValue(variantValue)) {
+			// Emit prefixed classes for every breakpoint listed in the value
+			for (const breakpoint of getResponsiveKeys(variantValue)) {
+				const breakpointValue =
+					variantValue[breakpoint as keyof typeof variantValue]
+				const breakpointProps = getVariantValueProps(
+					variantValues,
+					breakpointValue,
+					activeVariants,
+					options,
+				)
+				if (breakpointProps?.className) {
+					currentMergedClassName = cn(
+						currentMergedClassName,
+						prefixClassName(breakpointProps.className as string, breakpoint),
+					)
 				}
-				// Merge className iteratively
-				if (className) {
-					currentMergedClassName = cn(currentMergedClassName, className)
+			}
+			// Other props can't be scoped to a media query, so use the active breakpoint
+			const activeValue = pickResponsiveValue(variantValue, options.matchMedia)
+			const activeProps =
+				activeValue !== undefined
+					? getVariantValueProps(variantValues, activeValue, activeVariants, options)
+					: undefined
+			propsForVariant = activeProps && { className: undefined, rest: activeProps.rest }
+		} else {
+			propsForVariant = getVariantValueProps(
+				variantValues,
+				variantValue,
+				activeVariants,
+				options,
+			)
+		}
+
+		if (propsForVariant) {
+			const { className, rest: restProps } = propsForVariant
+			for (const key in restProps) {
+				const strategy = getMergeStrategy(key, options.merge)
+				if (strategy) {
+					// Merge styles and keys with a strategy iteratively
+					currentMergedValues[key] = mergeValues(
+						strategy,
+						currentMergedValues[key],
+						restProps[key],
+					)
+				} else {
+					// Merge other props (last write wins)
+					finalProps[key] = restProps[key]
 				}
 			}
+			// Merge className iteratively
+			if (className) {
+				currentMergedClassName = cn(currentMergedClassName, className)
+			}
 		}
 	}
 
-	// Assign merged styles and classes at the end
-	if (currentMergedStyle) (finalProps as any).style = currentMergedStyle
-	if (currentMergedClassName)
-		(finalProps as any).className = currentMergedClassName
+	// Assign merged values and classes at the end
+	for (const key in currentMergedValues) {
+		if (currentMergedValues[key] !== undefined) {
+			finalProps[key] = currentMergedValues[key]
+		}
+	}
+	if (currentMergedClassName) finalProps.className = currentMergedClassName
 
-	return finalProps
+	return finalProps as Partial<ComponentProps<T>>
 }
 
 /**
- * Extracts and merges props defined for active compound variants.
+ * Returns the props of a variant value for the active color scheme: function variants are called with
+ * the value, other variants look up their compiled props. Values that are neither strings nor booleans
+ * (plain JS configs) fall back to their string form.
+ */
+const getVariantValueProps = (
+	variantValues: CompiledVariant,
+	value: unknown,
+	activeVariants: ActiveVariants,
+	options: MergeOptions,
+): SplitProps => {
+	if (typeof variantValues === 'function') {
+		return splitClassName(
+			resolveBranchProps(
+				variantValues(value, activeVariants),
+				options.colorScheme,
+				options.merge,
+			),
+		)
+	}
+	const props =
+		variantValues.get(value as VariantValue) ||
+		variantValues.get(String(value))
+	return props?.[options.colorScheme || 'none']
+}
+
+/**
+ * Extracts and merges props defined for active compound variants, over the precompiled `compoundVariants`.
+ * The `light` / `dark` branch matching `options.colorScheme` is applied to each entry's props, and the
+ * props of every matching entry are merged in order: `className` through `cn`, styles through `mergeStyles`,
+ * and keys with an `options.merge` strategy with that strategy.
  */
 export const resolveCompoundVariantProps = <
 	T extends Component,
 	C extends Config,
 >(
 	compoundVariantsConfig: C['compoundVariants'],
-	activeVariants: Record<string, string | boolean | undefined>,
+	activeVariants: ActiveVariants,
+	options: MergeOptions = {},
 ): Partial<ComponentProps<T>> => {
-	const compoundProps: Partial<ComponentProps<T>> = {}
-	if (!compoundVariantsConfig) return compoundProps
-	for (const compoundItem of compoundVariantsConfig) {
-		const { props: itemProps, ...conditions } = compoundItem as AnyObject
-		if (checkCompoundVariantConditions(conditions, activeVariants)) {
-			if (itemProps) Object.assign(compoundProps, itemProps)
+	if (!compoundVariantsConfig) return {}
+	const schemeKey: SchemeKey = options.colorScheme || 'none'
+	let compoundProps: AnyObject | undefined
+	for (const compoundItem of compileCompoundVariants(
+		compoundVariantsConfig,
+		options.merge,
+	)) {
+		if (
+			!checkCompoundVariantConditions(compoundItem.conditions, activeVariants, options)
+		) {
+			continue
 		}
+		compoundProps = mergePropObjects(
+			compoundProps,
+			compoundItem.props[schemeKey],
+			options.merge,
+		)
 	}
-	return compoundProps
+	return (compoundProps || {}) as Partial<ComponentProps<T>>
 }
 
 /**
  * Main function to merge all prop sources in the correct priority order.
  * Optimized version to reduce creation of intermediate objects.
+ * `$token` references in the merged `style` are resolved against `options.theme`,
+ * and the `light` / `dark` branch of `base` matching `options.colorScheme` is applied.
+ * Keys declared in `options.merge` are merged with their strategy instead of overwritten.
  */
 export const mergeFinalProps = <T extends Component>(
 	base: Partial<ComponentProps<T>> | undefined,
 	variants: Partial<ComponentProps<T>>,
 	compounds: Partial<ComponentProps<T>>,
 	direct: Partial<ComponentProps<T>>, // Includes ref here
+	options: MergeOptions = {},
 ): ComponentProps<T> => {
 	const { ref, ...otherDirectProps } = direct || {}
 
-	const sources = [base, variants, compounds, otherDirectProps]
+	const sources = [
+		base && compileBase(base, options.merge)[options.colorScheme || 'none'],
+		variants,
+		compounds,
+		otherDirectProps,
+	]
 	const finalProps: AnyObject = {}
-	const stylesToMerge: StyleValue[] = []
+	const valuesToMerge: Record<string, unknown[]> = {} // styles and keys with a merge strategy
 	const classesToMerge: ClassValue[] = []
 
 	// Iterate through sources to collect styles, classes, and other props
@@ -162,10 +822,11 @@ export const mergeFinalProps = <T extends Component>(
 		if (!source) continue
 
 		for (const key in source) {
-			if (key === 'style') {
-				stylesToMerge.push(source.style)
-			} else if (key === 'className') {
+			if (key === 'className') {
 				classesToMerge.push(source.className)
+			} else if (getMergeStrategy(key, options.merge)) {
+				valuesToMerge[key] = valuesToMerge[key] || []
+				valuesToMerge[key].push(source[key as keyof typeof source])
 			} else if (key !== 'ref') {
 				// Ignore ref here, handled separately
 				// Later props overwrite earlier ones
@@ -174,13 +835,86 @@ export const mergeFinalProps = <T extends Component>(
 		}
 	}
 
-	// Merge collected styles and classNames
-	const mergedStyle = mergeStyles(...stylesToMerge)
+	// Merge collected values and classNames
+	for (const key in valuesToMerge) {
+		const values = valuesToMerge[key] || []
+		const strategy = getMergeStrategy(key, options.merge) as MergeStrategy
+		const mergedValue =
+			strategy === 'style'
+				? resolveStyleTokens(
+						mergeStyles(...(values as StyleValue[])),
+						options.theme,
+					)
+				: values.reduce((merged, value) => mergeValues(strategy, merged, value))
+		if (mergedValue !== undefined) finalProps[key] = mergedValue
+	}
 	const mergedClassName = cn(...classesToMerge)
 
-	// Add styles, classes, and ref to the final object
-	if (mergedStyle) finalProps.style = mergedStyle
+	// Add classes and ref to the final object
 	if (mergedClassName) finalProps.className = mergedClassName
 	if (ref) finalProps.ref = ref // Add ref back
 	return finalProps as ComponentProps<T>
 }
+
+/**
+ * Merges the direct props of a render over props already resolved from the config
+ * (the output of `mergeFinalProps` without direct props, as cached by styled components).
+ * Direct props without `className`, styles or keys with a merge strategy are simply spread over the resolved ones.
+ */
+export const mergeDirectProps = <T extends Component>(
+	resolved: Partial<ComponentProps<T>>,
+	direct: Partial<ComponentProps<T>>,
+	options: MergeOptions = {},
+): ComponentProps<T> => {
+	for (const key in direct) {
+		if (getMergeStrategy(key, options.merge)) {
+			return mergeFinalProps<T>(undefined, resolved, {}, direct, options)
+		}
+	}
+	return { ...resolved, ...direct } as ComponentProps<T>
+}
+
+/**
+ * Merges the config of a parent styled component with the config of a component extending it.
+ * `base` and matching variant entries are merged (child wins, style/className combined),
+ * `defaultVariants` and `merge` strategies are shallow merged and `compoundVariants` are concatenated (parent first).
+ */
+export const mergeConfigs = (parent: Config, child: Config): Config => {
+	const strategies =
+		parent.merge && child.merge
+			? { ...parent.merge, ...child.merge }
+			: child.merge || parent.merge
+
+	const variants: NonNullable<Config['variants']> = { ...parent.variants }
+	for (const variantKey in child.variants) {
+		const parentValues = parent.variants?.[variantKey] || {}
+		const childValues = child.variants[variantKey] || {}
+		// Function variants can't be merged value by value, the child replaces the variant
+		if (typeof parentValues === 'function' || typeof childValues === 'function') {
+			variants[variantKey] = childValues
+			continue
+		}
+		const mergedValues: Record<string, object> = { ...parentValues }
+		for (const valueKey in childValues) {
+			mergedValues[valueKey] = mergePropObjects(
+				parentValues[valueKey],
+				childValues[valueKey],
+				strategies,
+			) as object
+		}
+		variants[variantKey] = mergedValues
+	}
+
+	return {
+		...parent,
+		...child,
+		base: mergePropObjects(parent.base, child.base, strategies),
+		variants,
+		merge: strategies,
+		defaultVariants: { ...parent.defaultVariants, ...child.defaultVariants },
+		compoundVariants: [
+			...(parent.compoundVariants || []),
+			...(child.compoundVariants || []),
+		],
+	}
+}
@@ -0,0 +1,156 @@
+import type { Component, Config, VariantCondition, VariantValue } from './types'
+import { logger } from './logger'
+import { getUseStyledOptions } from './config'
+
+type AnyObject = Record<string, any>
+
+/**
+ * Keys of a compound variant entry that are not conditions.
+ */
+const compoundPropKeys = new Set(['props', 'className', 'style'])
+
+/**
+ * Warnings already reported, so each one is only logged once per component.
+ */
+const reportedWarnings = new Set<string>()
+
+const warn = (name: string, message: string) => {
+	const warning = `[${name}] ${message}`
+	if (reportedWarnings.has(warning)) return
+	reportedWarnings.add(warning)
+	logger.warn(warning)
+}
+
+/**
+ * Formats a list of values for a warning (`"sm", "lg"`).
+ */
+const formatValues = (values: string[]) =>
+	values.map(value => `"${value}"`).join(', ')
+
+/**
+ * Checks whether `value` is one of the values of a variant. Boolean values match `true` / `false` keys,
+ * and `false` is always accepted by variants defining `true` (it simply applies nothing).
+ * Function variants accept any value.
+ */
+const isVariantValue = (values: AnyObject, value: unknown) =>
+	typeof values === 'function' ||
+	((typeof value === 'string' || typeof value === 'boolean') &&
+		(String(value) in values || (value === false && 'true' in values)))
+
+/**
+ * Returns the single values referenced by a compound condition (value, array or `{ not }`).
+ */
+const getConditionValues = (
+	condition: VariantCondition<VariantValue>,
+): ReadonlyArray<unknown> => {
+	if (Array.isArray(condition)) return condition
+	if (typeof condition === 'object' && condition !== null && 'not' in condition) {
+		return getConditionValues(condition.not)
+	}
+	return [condition]
+}
+
+/**
+ * Development-only checks of a config, run once when a styled component is created:
+ * - `defaultVariants` keys and values must exist in `variants`;
+ * - compound variant conditions must reference existing variants and values;
+ * - variant names must not collide with props of the rendered element, which they would swallow.
+ *
+ * Problems are reported as warnings through the logger, prefixed with the component `name`.
+ */
+export const validateConfig = (
+	config: Config,
+	component: Component,
+	name: string,
+) => {
+	const variants: AnyObject = config.variants || {}
+
+	for (const key in config.defaultVariants) {
+		const value = config.defaultVariants[key]
+		if (!variants[key]) {
+			warn(name, `defaultVariants references unknown variant "${key}".`)
+		} else if (!isVariantValue(variants[key], value)) {
+			warn(
+				name,
+				`defaultVariants.${key} is "${value}", expected one of ${formatValues(Object.keys(variants[key]))}.`,
+			)
+		}
+	}
+
+	config.compoundVariants?.forEach((compoundItem, index) => {
+		for (const key in compoundItem) {
+			if (compoundPropKeys.has(key)) continue
+			if (!variants[key]) {
+				warn(name, `compoundVariants[${index}] references unknown variant "${key}".`)
+				continue
+			}
+			const condition = (compoundItem as AnyObject)[key]
+			for (const value of getConditionValues(condition)) {
+				if (!isVariantValue(variants[key], value)) {
+					warn(
+						name,
+						`compoundVariants[${index}].${key} references unknown value "${value}", expected one of ${formatValues(Object.keys(variants[key]))}.`,
+					)
+				}
+			}
+		}
+	})
+
+	// Props of intrinsic elements can be detected on a live element (web only).
+	if (typeof component === 'string' && typeof document !== 'undefined') {
+		const element = document.createElement(component)
+		for (const key in variants) {
+			if (key in element) {
+				warn(
+					name,
+					`Variant "${key}" collides with the "${key}" prop of <${component}>: it is consumed as a variant and never reaches the element.`,
+				)
+			}
+		}
+	}
+}
+
+/**
+ * Development-only check of the variant values passed at render:
+ * each value (or each breakpoint value of a responsive value) must exist in `variants`.
+ * Function variants accept any value and are not checked.
+ */
+export const validateVariantProps = (
+	variants: Config['variants'],
+	props: AnyObject,
+	name: string,
+) => {
+	if (!variants) return
+	const breakpoints = ['initial', ...Object.keys(getUseStyledOptions().breakpoints)]
+
+	for (const key in variants) {
+		const value = props[key]
+		if (value === undefined) continue
+		const values = variants[key] || {}
+		if (typeof values === 'function') continue
+		const expected = formatValues(Object.keys(values))
+
+		// Static variants never take objects, so any object is checked as a breakpoint object
+		if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+			if (!isVariantValue(values, value)) {
+				warn(name, `Invalid value "${value}" for variant "${key}", expected one of ${expected}.`)
+			}
+			continue
+		}
+		for (const breakpoint in value) {
+			const breakpointValue = value[breakpoint as keyof typeof value]
+			if (breakpointValue === undefined) continue
+			if (!breakpoints.includes(breakpoint)) {
+				warn(
+					name,
+					`Unknown breakpoint "${breakpoint}" for variant "${key}", expected one of ${formatValues(breakpoints)}.`,
+				)
+			} else if (!isVariantValue(values, breakpointValue)) {
+				warn(
+					name,
+					`Invalid value "${breakpointValue}" for variant "${key}" at "${breakpoint}", expected one of ${expected}.`,
+				)
+			}
+		}
+	}
+}
@@ -0,0 +1,14 @@
+import React from 'react'
+import type { ActiveVariants } from './types'
+
+/**
+ * Active variants published by ancestor styled components, keyed by the name they were published under.
+ * Nested publishers add their entry on top of their ancestors', so the closest publisher wins for a name.
+ */
+export type VariantContextValue = Record<string, ActiveVariants>
+
+/**
+ * Context used by styled components configured with `provideVariants` to share their active variants
+ * with descendants configured with `inheritVariants`. Plain React context, so it works on web and React Native.
+ */
+export const VariantContext = React.createContext<VariantContextValue>({})